@@ -1,8 +1,11 @@
 import { typiaValidator } from "@hono/typia-validator";
 import {
   type Bundle,
+  type ChannelConfig,
+  type ChannelPlatformConfig,
   type ConfigResponse,
   type DatabasePlugin,
+  type DeviceOverride,
   getCwd,
   loadConfig,
 } from "@hot-updater/plugin-core";
@@ -23,6 +26,30 @@ const paramBundleIdSchema = typia.createValidate<{
 
 const updateBundleSchema = typia.createValidate<Partial<Bundle>>();
 
+const paramDeviceIdSchema = typia.createValidate<{
+  deviceId: string;
+}>();
+
+const setDeviceOverrideSchema =
+  typia.createValidate<Omit<DeviceOverride, "deviceId">>();
+
+const paramChannelSchema = typia.createValidate<{
+  channel: string;
+}>();
+
+const setChannelConfigSchema =
+  typia.createValidate<Omit<ChannelConfig, "channel">>();
+
+const paramChannelPlatformSchema = typia.createValidate<{
+  channel: string;
+  platform: "ios" | "android";
+}>();
+
+const updateChannelPlatformConfigSchema =
+  typia.createValidate<
+    Partial<Omit<ChannelPlatformConfig, "channel" | "platform">>
+  >();
+
 // Thêm schema mới cho yêu cầu danh sách bundleIds - tạm bỏ validation ở phần code xử lý
 // const bodyBundleIdsSchema = createSchema({
 //   bundleIds: Type.Array(Type.String()),
@@ -151,10 +178,30 @@ export const rpc = new Hono()
 
         const { config, databasePlugin } = await prepareConfig();
 
+        // Promoted bundles serve the storage object of the bundle they were promoted from,
+        // disabled ones included since they can be enabled again
+        const promotedBundles = (await databasePlugin.getBundles()).filter(
+          (b) => b.sourceBundleId === bundleId
+        );
+        if (promotedBundles.length > 0) {
+          return c.json(
+            {
+              success: false,
+              error: `${bundleId} is served by the promoted bundles ${promotedBundles
+                .map((b) => `${b.id} (${b.channel})`)
+                .join(", ")}`,
+            },
+            409
+          );
+        }
+
+        const bundle = await databasePlugin.getBundleById(bundleId);
+
         let storageError = null;
 
         // Nếu storage plugin tồn tại, thử xóa file từ storage (R2)
-        if (config.storage) {
+        // A promoted bundle shares the storage object of its source bundle
+        if (config.storage && !bundle?.sourceBundleId) {
           try {
             const storagePlugin = await config.storage({ cwd: getCwd() });
             await storagePlugin.deleteBundle(bundleId);
@@ -243,6 +290,249 @@ export const rpc = new Hono()
       }
     }
   )
+  .get("/device-overrides", async (c) => {
+    try {
+      const { databasePlugin } = await prepareConfig();
+      if (!databasePlugin.getDeviceOverrides) {
+        return c.json({ supported: false, deviceOverrides: [] });
+      }
+      const deviceOverrides = await databasePlugin.getDeviceOverrides();
+      return c.json({ supported: true, deviceOverrides });
+    } catch (error) {
+      console.error("Error during device override retrieval:", error);
+      throw error;
+    }
+  })
+  .put(
+    "/device-overrides/:deviceId",
+    typiaValidator("param", paramDeviceIdSchema),
+    typiaValidator("json", setDeviceOverrideSchema),
+    async (c) => {
+      try {
+        const { deviceId } = c.req.valid("param");
+        const { channel, bundleId } = c.req.valid("json");
+        if (!channel && !bundleId) {
+          return c.json(
+            { error: "Either channel or bundleId is required" },
+            400
+          );
+        }
+
+        const { databasePlugin } = await prepareConfig();
+        if (!databasePlugin.setDeviceOverride) {
+          return c.json(
+            {
+              error: `${databasePlugin.name} does not support device overrides`,
+            },
+            501
+          );
+        }
+        await databasePlugin.setDeviceOverride({
+          deviceId,
+          channel,
+          bundleId,
+        });
+        return c.json({ success: true });
+      } catch (error) {
+        console.error("Error during device override update:", error);
+        if (error && typeof error === "object" && "message" in error) {
+          return c.json({ error: error.message }, 500);
+        }
+        return c.json({ error: "Unknown error" }, 500);
+      }
+    }
+  )
+  .delete(
+    "/device-overrides/:deviceId",
+    typiaValidator("param", paramDeviceIdSchema),
+    async (c) => {
+      try {
+        const { deviceId } = c.req.valid("param");
+
+        const { databasePlugin } = await prepareConfig();
+        if (!databasePlugin.deleteDeviceOverride) {
+          return c.json(
+            {
+              error: `${databasePlugin.name} does not support device overrides`,
+            },
+            501
+          );
+        }
+        await databasePlugin.deleteDeviceOverride(deviceId);
+        return c.json({ success: true });
+      } catch (error) {
+        console.error("Error during device override deletion:", error);
+        if (error && typeof error === "object" && "message" in error) {
+          return c.json({ error: error.message }, 500);
+        }
+        return c.json({ error: "Unknown error" }, 500);
+      }
+    }
+  )
+  .get("/channel-configs", async (c) => {
+    try {
+      const { databasePlugin } = await prepareConfig();
+      if (!databasePlugin.getChannelConfigs) {
+        return c.json({ supported: false, channelConfigs: [] });
+      }
+      const channelConfigs = await databasePlugin.getChannelConfigs();
+      return c.json({ supported: true, channelConfigs });
+    } catch (error) {
+      console.error("Error during channel config retrieval:", error);
+      throw error;
+    }
+  })
+  .put(
+    "/channel-configs/:channel",
+    typiaValidator("param", paramChannelSchema),
+    typiaValidator("json", setChannelConfigSchema),
+    async (c) => {
+      try {
+        const { channel } = c.req.valid("param");
+        const changes = c.req.valid("json");
+        if (changes.parentChannel === channel) {
+          return c.json({ error: "A channel cannot inherit from itself" }, 400);
+        }
+
+        const { databasePlugin } = await prepareConfig();
+        if (!databasePlugin.setChannelConfig) {
+          return c.json(
+            {
+              error: `${databasePlugin.name} does not support channel configs`,
+            },
+            501
+          );
+        }
+        // The mode and the rollback policy are switched on their own, so keep the current ones when omitted
+        const current = (
+          (await databasePlugin.getChannelConfigs?.()) ?? []
+        ).find((c) => c.channel === channel);
+        await databasePlugin.setChannelConfig({
+          mode: "normal",
+          rollbackPolicy: null,
+          ...current,
+          ...changes,
+          channel
+        });
+        return c.json({ success: true });
+      } catch (error) {
+        console.error("Error during channel config update:", error);
+        if (error && typeof error === "object" && "message" in error) {
+          return c.json({ error: error.message }, 500);
+        }
+        return c.json({ error: "Unknown error" }, 500);
+      }
+    }
+  )
+  .delete(
+    "/channel-configs/:channel",
+    typiaValidator("param", paramChannelSchema),
+    async (c) => {
+      try {
+        const { channel } = c.req.valid("param");
+
+        const { databasePlugin } = await prepareConfig();
+        if (!databasePlugin.deleteChannelConfig) {
+          return c.json(
+            {
+              error: `${databasePlugin.name} does not support channel configs`,
+            },
+            501
+          );
+        }
+        await databasePlugin.deleteChannelConfig(channel);
+        return c.json({ success: true });
+      } catch (error) {
+        console.error("Error during channel config deletion:", error);
+        if (error && typeof error === "object" && "message" in error) {
+          return c.json({ error: error.message }, 500);
+        }
+        return c.json({ error: "Unknown error" }, 500);
+      }
+    }
+  )
+  .get("/channel-platform-configs", async (c) => {
+    try {
+      const { databasePlugin } = await prepareConfig();
+      if (!databasePlugin.getChannelPlatformConfigs) {
+        return c.json({ supported: false, channelPlatformConfigs: [] });
+      }
+      const channelPlatformConfigs =
+        await databasePlugin.getChannelPlatformConfigs();
+      return c.json({ supported: true, channelPlatformConfigs });
+    } catch (error) {
+      console.error("Error during channel platform config retrieval:", error);
+      throw error;
+    }
+  })
+  .patch(
+    "/channel-platform-configs/:channel/:platform",
+    typiaValidator("param", paramChannelPlatformSchema),
+    typiaValidator("json", updateChannelPlatformConfigSchema),
+    async (c) => {
+      try {
+        const { channel, platform } = c.req.valid("param");
+        const changes = c.req.valid("json");
+
+        const { databasePlugin } = await prepareConfig();
+        if (!databasePlugin.setChannelPlatformConfig) {
+          return c.json(
+            {
+              error: `${databasePlugin.name} does not support channel platform configs`,
+            },
+            501
+          );
+        }
+        // Pinning and the minimum app version are edited separately, so keep the other fields
+        const current = (
+          (await databasePlugin.getChannelPlatformConfigs?.()) ?? []
+        ).find((c) => c.channel === channel && c.platform === platform);
+        await databasePlugin.setChannelPlatformConfig({
+          minAppVersion: null,
+          storeUrl: null,
+          pinnedBundleId: null,
+          ...current,
+          ...changes,
+          channel,
+          platform,
+        });
+        return c.json({ success: true });
+      } catch (error) {
+        console.error("Error during channel platform config update:", error);
+        if (error && typeof error === "object" && "message" in error) {
+          return c.json({ error: error.message }, 500);
+        }
+        return c.json({ error: "Unknown error" }, 500);
+      }
+    }
+  )
+  .delete(
+    "/channel-platform-configs/:channel/:platform",
+    typiaValidator("param", paramChannelPlatformSchema),
+    async (c) => {
+      try {
+        const { channel, platform } = c.req.valid("param");
+
+        const { databasePlugin } = await prepareConfig();
+        if (!databasePlugin.deleteChannelPlatformConfig) {
+          return c.json(
+            {
+              error: `${databasePlugin.name} does not support channel platform configs`,
+            },
+            501
+          );
+        }
+        await databasePlugin.deleteChannelPlatformConfig(channel, platform);
+        return c.json({ success: true });
+      } catch (error) {
+        console.error("Error during channel platform config deletion:", error);
+        if (error && typeof error === "object" && "message" in error) {
+          return c.json({ error: error.message }, 500);
+        }
+        return c.json({ error: "Unknown error" }, 500);
+      }
+    }
+  )
   .post(
     "/r2/delete/:bundleId",
     typiaValidator("param", paramBundleIdSchema),
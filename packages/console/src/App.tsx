@@ -5,6 +5,8 @@ import Layout from "@/components/ui/layout";
 import { QueryClient, QueryClientProvider } from "@tanstack/solid-query";
 import { Toaster } from "./components/ui/toast";
 import Home from "./routes";
+import Channels from "./routes/channels";
+import DeviceOverrides from "./routes/device-overrides";
 
 const queryClient = new QueryClient();
 
@@ -20,6 +22,8 @@ export default function App() {
         )}
       >
         <Route path="/" component={Home} />
+        <Route path="/channels" component={Channels} />
+        <Route path="/device-overrides" component={DeviceOverrides} />
       </Router>
 
       <Toaster />
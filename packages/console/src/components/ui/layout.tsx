@@ -1,4 +1,5 @@
 import logo from "@/assets/logo.png";
+import { A } from "@solidjs/router";
 import type { JSX } from "solid-js";
 
 export default function Layout({ children }: { children: JSX.Element }) {
@@ -14,6 +15,30 @@ export default function Layout({ children }: { children: JSX.Element }) {
         >
           Hot Updater Console
         </a>
+        <nav class="ml-auto flex flex-row gap-4 text-sm">
+          <A
+            href="/"
+            end
+            class="text-muted-foreground"
+            activeClass="text-foreground font-medium"
+          >
+            Bundles
+          </A>
+          <A
+            href="/channels"
+            class="text-muted-foreground"
+            activeClass="text-foreground font-medium"
+          >
+            Channels
+          </A>
+          <A
+            href="/device-overrides"
+            class="text-muted-foreground"
+            activeClass="text-foreground font-medium"
+          >
+            Device Overrides
+          </A>
+        </nav>
       </div>
       {children}
     </main>
@@ -73,6 +73,28 @@ export const createChannelsQuery = () =>
     },
   }));
 
+export const createDeviceOverridesQuery = () =>
+  createQuery(() => ({
+    queryKey: ["device-overrides"],
+    queryFn: () => api["device-overrides"].$get().then((res) => res.json()),
+    staleTime: Number.POSITIVE_INFINITY,
+  }));
+
+export const createChannelConfigsQuery = () =>
+  createQuery(() => ({
+    queryKey: ["channel-configs"],
+    queryFn: () => api["channel-configs"].$get().then((res) => res.json()),
+    staleTime: Number.POSITIVE_INFINITY,
+  }));
+
+export const createChannelPlatformConfigsQuery = () =>
+  createQuery(() => ({
+    queryKey: ["channel-platform-configs"],
+    queryFn: () =>
+      api["channel-platform-configs"].$get().then((res) => res.json()),
+    staleTime: Number.POSITIVE_INFINITY,
+  }));
+
 // Type cho response của deleteBundle
 export type DeleteBundleResponse = {
   success?: boolean;
@@ -0,0 +1,288 @@
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  TextField,
+  TextFieldInput,
+  TextFieldLabel,
+} from "@/components/ui/text-field";
+import { showToast } from "@/components/ui/toast";
+import { api, createChannelPlatformConfigsQuery } from "@/lib/api";
+import type { Platform } from "@hot-updater/core";
+import { createForm } from "@tanstack/solid-form";
+import { useQueryClient } from "@tanstack/solid-query";
+import { LoaderCircle, Trash2 } from "lucide-solid";
+import { For, Show, createSignal } from "solid-js";
+
+const platforms = [
+  { label: "iOS", value: "ios" },
+  { label: "Android", value: "android" },
+] as const;
+
+const showError = (description: string) => {
+  showToast({
+    title: "Error",
+    description,
+    variant: "error",
+  });
+};
+
+export const ChannelPlatformSettings = () => {
+  const queryClient = useQueryClient();
+  const channelPlatformConfigs = createChannelPlatformConfigsQuery();
+
+  const [isSubmitting, setIsSubmitting] = createSignal(false);
+
+  const form = createForm(() => ({
+    defaultValues: {
+      channel: "",
+      platform: "ios" as Platform,
+      minAppVersion: "",
+      storeUrl: "",
+    },
+    onSubmit: async ({ value }) => {
+      setIsSubmitting(true);
+      try {
+        const res = await api["channel-platform-configs"][":channel"][
+          ":platform"
+        ].$patch({
+          param: { channel: value.channel.trim(), platform: value.platform },
+          json: {
+            minAppVersion: value.minAppVersion.trim() || null,
+            storeUrl: value.storeUrl.trim() || null,
+          },
+        });
+        if (res.status !== 200) {
+          const json = (await res.json()) as { error: string };
+          showError(json.error);
+          return;
+        }
+        form.reset();
+      } catch (e) {
+        if (e instanceof Error) {
+          showError(e.message);
+        }
+      } finally {
+        setIsSubmitting(false);
+        queryClient.invalidateQueries({
+          queryKey: ["channel-platform-configs"],
+        });
+      }
+    },
+  }));
+
+  const handleDelete = async (channel: string, platform: Platform) => {
+    try {
+      const res = await api["channel-platform-configs"][":channel"][
+        ":platform"
+      ].$delete({
+        param: { channel, platform },
+      });
+      if (res.status !== 200) {
+        const json = (await res.json()) as { error: string };
+        showError(json.error);
+      }
+    } catch (e) {
+      if (e instanceof Error) {
+        showError(e.message);
+      }
+    } finally {
+      queryClient.invalidateQueries({ queryKey: ["channel-platform-configs"] });
+    }
+  };
+
+  return (
+    <div class="flex flex-col gap-6">
+      <div>
+        <h2 class="text-lg font-medium">Platform Settings</h2>
+        <p class="text-sm text-muted-foreground">
+          Apps older than the minimum app version stop receiving bundles and are
+          asked to update from the store. A pinned bundle, set from the bundle
+          list, is served instead of newer bundles. Child channels inherit the
+          settings of their parents.
+        </p>
+      </div>
+
+      <Show when={channelPlatformConfigs.data?.supported === false}>
+        <p class="text-sm text-red-500">
+          The configured database plugin does not support platform settings.
+        </p>
+      </Show>
+
+      <form
+        class="flex flex-row flex-wrap items-end gap-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          form.handleSubmit();
+        }}
+      >
+        <form.Field
+          name="channel"
+          validators={{
+            onChange: ({ value }) =>
+              value.trim().length === 0 ? "Channel is required" : undefined,
+          }}
+        >
+          {(field) => (
+            <TextField class="grid w-full max-w-xs items-center gap-1.5">
+              <TextFieldLabel for="platformChannel">Channel</TextFieldLabel>
+              <TextFieldInput
+                type="text"
+                id="platformChannel"
+                placeholder="production"
+                name={field().name}
+                value={field().state.value}
+                onBlur={field().handleBlur}
+                onInput={(e) => field().handleChange(e.currentTarget.value)}
+              />
+            </TextField>
+          )}
+        </form.Field>
+
+        <form.Field name="platform">
+          {(field) => (
+            <div class="flex flex-row gap-1">
+              <For each={platforms}>
+                {(platform) => (
+                  <Button
+                    type="button"
+                    variant={
+                      field().state.value === platform.value
+                        ? "default"
+                        : "outline"
+                    }
+                    onClick={() => field().handleChange(platform.value)}
+                  >
+                    {platform.label}
+                  </Button>
+                )}
+              </For>
+            </div>
+          )}
+        </form.Field>
+
+        <form.Field name="minAppVersion">
+          {(field) => (
+            <TextField class="grid w-full max-w-[10rem] items-center gap-1.5">
+              <TextFieldLabel for="minAppVersion">
+                Minimum App Version
+              </TextFieldLabel>
+              <TextFieldInput
+                type="text"
+                id="minAppVersion"
+                placeholder="2.0.0"
+                name={field().name}
+                value={field().state.value}
+                onBlur={field().handleBlur}
+                onInput={(e) => field().handleChange(e.currentTarget.value)}
+              />
+            </TextField>
+          )}
+        </form.Field>
+
+        <form.Field name="storeUrl">
+          {(field) => (
+            <TextField class="grid w-full max-w-xs items-center gap-1.5">
+              <TextFieldLabel for="storeUrl">Store URL</TextFieldLabel>
+              <TextFieldInput
+                type="url"
+                id="storeUrl"
+                placeholder="https://apps.apple.com/app/id000000000"
+                name={field().name}
+                value={field().state.value}
+                onBlur={field().handleBlur}
+                onInput={(e) => field().handleChange(e.currentTarget.value)}
+              />
+            </TextField>
+          )}
+        </form.Field>
+
+        <form.Subscribe
+          selector={(state) => ({
+            canSubmit:
+              state.canSubmit && state.values.channel.trim().length > 0,
+          })}
+        >
+          {(state) => (
+            <Button
+              type="submit"
+              disabled={!state().canSubmit || isSubmitting()}
+            >
+              <Show when={isSubmitting()} fallback="Save">
+                <LoaderCircle class="animate-spin" />
+              </Show>
+            </Button>
+          )}
+        </form.Subscribe>
+      </form>
+
+      <div class="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Channel</TableHead>
+              <TableHead>Platform</TableHead>
+              <TableHead>Minimum App Version</TableHead>
+              <TableHead>Store URL</TableHead>
+              <TableHead>Pinned Bundle</TableHead>
+              <TableHead class="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            <For
+              each={channelPlatformConfigs.data?.channelPlatformConfigs}
+              fallback={
+                <TableRow>
+                  <TableCell colSpan={6} class="h-24 text-center">
+                    No platform settings.
+                  </TableCell>
+                </TableRow>
+              }
+            >
+              {(channelPlatformConfig) => (
+                <TableRow>
+                  <TableCell>{channelPlatformConfig.channel}</TableCell>
+                  <TableCell>{channelPlatformConfig.platform}</TableCell>
+                  <TableCell>
+                    {channelPlatformConfig.minAppVersion ?? "-"}
+                  </TableCell>
+                  <TableCell class="max-w-xs truncate">
+                    {channelPlatformConfig.storeUrl ?? "-"}
+                  </TableCell>
+                  <TableCell
+                    class="font-mono text-xs"
+                    title={channelPlatformConfig.pinnedBundleId ?? undefined}
+                  >
+                    {channelPlatformConfig.pinnedBundleId?.slice(0, 8) ?? "-"}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Remove platform settings"
+                      onClick={() =>
+                        handleDelete(
+                          channelPlatformConfig.channel,
+                          channelPlatformConfig.platform,
+                        )
+                      }
+                    >
+                      <Trash2 class="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              )}
+            </For>
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,9 @@
-import { getFileSizes } from "@/lib/api";
+import { createChannelPlatformConfigsQuery, getFileSizes } from "@/lib/api";
 import { extractTimestampFromUUIDv7 } from "@/lib/extract-timestamp-from-uuidv7";
 import type { Bundle } from "@hot-updater/core";
 import type { ColumnDef } from "@tanstack/solid-table";
 import dayjs from "dayjs";
-import { ArrowDown, ArrowUp, Check, Loader2, X } from "lucide-solid";
+import { ArrowDown, ArrowUp, Check, Loader2, Pin, X } from "lucide-solid";
 import { createResource, createSignal, Show } from "solid-js";
 import { toast } from "solid-sonner";
 
@@ -226,6 +226,14 @@ export const columns: ColumnDef<Bundle>[] = [
     size: 180,
     cell: (info) => {
       const bundleId = String(info.getValue());
+      const channelPlatformConfigs = createChannelPlatformConfigsQuery();
+      const isPinned = () =>
+        channelPlatformConfigs.data?.channelPlatformConfigs.some(
+          (c) =>
+            c.channel === info.row.original.channel &&
+            c.platform === info.row.original.platform &&
+            c.pinnedBundleId === bundleId
+        );
 
       // Hiển thị rút gọn: 8 ký tự đầu và 4 ký tự cuối
       const truncatedId =
@@ -251,6 +259,15 @@ export const columns: ColumnDef<Bundle>[] = [
           <span class="text-xs font-mono text-slate-600" title={bundleId}>
             {truncatedId}
           </span>
+          <Show when={isPinned()}>
+            <span
+              class="bg-amber-100 text-amber-700 px-1.5 py-0.5 rounded text-xs font-semibold inline-flex items-center gap-1"
+              title={`Pinned on ${info.row.original.channel}`}
+            >
+              <Pin class="w-3 h-3" />
+              Pinned
+            </span>
+          </Show>
           <button
             onClick={handleCopy}
             class="bg-blue-50 hover:bg-blue-100 text-blue-600 px-1.5 py-0.5 rounded text-xs transition-colors duration-200"
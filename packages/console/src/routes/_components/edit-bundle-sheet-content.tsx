@@ -6,6 +6,14 @@ import {
   SheetTitle,
 } from "@/components/ui/sheet";
 import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Slider,
+  SliderFill,
+  SliderLabel,
+  SliderThumb,
+  SliderTrack,
+  SliderValueLabel,
+} from "@/components/ui/slider";
 import {
   Switch,
   SwitchControl,
@@ -16,15 +24,21 @@ import {
   TextField,
   TextFieldInput,
   TextFieldLabel,
+  TextFieldTextArea,
 } from "@/components/ui/text-field";
 import { showToast } from "@/components/ui/toast";
-import { api, createBundleQuery, createConfigQuery } from "@/lib/api";
+import {
+  api,
+  createBundleQuery,
+  createChannelPlatformConfigsQuery,
+  createConfigQuery,
+} from "@/lib/api";
 import { cn } from "@/lib/utils";
 
 import type { Bundle } from "@hot-updater/plugin-core";
 import { createForm } from "@tanstack/solid-form";
 import { useQueryClient } from "@tanstack/solid-query";
-import { LoaderCircle } from "lucide-solid";
+import { LoaderCircle, Pin, PinOff } from "lucide-solid";
 import semverValid from "semver/ranges/valid";
 import { Show, createMemo, createSignal } from "solid-js";
 
@@ -65,11 +79,106 @@ export const EditBundleSheetContent = ({
   );
 };
 
+const PinBundleButton = ({ bundle }: { bundle: Bundle }) => {
+  const queryClient = useQueryClient();
+  const channelPlatformConfigs = createChannelPlatformConfigsQuery();
+
+  const [isPinning, setIsPinning] = createSignal(false);
+  const isPinned = createMemo(() =>
+    channelPlatformConfigs.data?.channelPlatformConfigs.some(
+      (c) =>
+        c.channel === bundle.channel &&
+        c.platform === bundle.platform &&
+        c.pinnedBundleId === bundle.id,
+    ),
+  );
+
+  const handlePin = async () => {
+    setIsPinning(true);
+    try {
+      const res = await api["channel-platform-configs"][":channel"][
+        ":platform"
+      ].$patch({
+        param: { channel: bundle.channel, platform: bundle.platform },
+        json: { pinnedBundleId: isPinned() ? null : bundle.id },
+      });
+      if (res.status !== 200) {
+        const json = (await res.json()) as { error: string };
+        showToast({
+          title: "Error",
+          description: json.error,
+          variant: "error",
+        });
+      }
+    } catch (e) {
+      if (e instanceof Error) {
+        showToast({
+          title: "Error",
+          description: e.message,
+          variant: "error",
+        });
+      }
+    } finally {
+      setIsPinning(false);
+      queryClient.invalidateQueries({ queryKey: ["channel-platform-configs"] });
+    }
+  };
+
+  return (
+    <Show when={channelPlatformConfigs.data?.supported}>
+      <div>
+        <Button
+          type="button"
+          variant="outline"
+          disabled={isPinning()}
+          onClick={handlePin}
+        >
+          <Show when={isPinned()} fallback={<Pin class="mr-2 h-4 w-4" />}>
+            <PinOff class="mr-2 h-4 w-4" />
+          </Show>
+          {isPinned() ? "Unpin" : "Pin"} on {bundle.channel} ({bundle.platform})
+        </Button>
+        <p class="text-xs text-muted-foreground mt-[2px]">
+          A pinned bundle is served to the channel even when newer bundles are
+          enabled. Devices on newer bundles roll back to it.
+        </p>
+      </div>
+    </Show>
+  );
+};
+
 interface EditBundleSheetFormProps {
   bundle: Bundle;
   onEditSuccess: () => void;
 }
 
+// Metadata is edited as JSON text and sent as an object, or null when cleared
+type EditBundleFormValues = Partial<Omit<Bundle, "metadata">> & {
+  metadata: string;
+};
+
+const parseMetadataText = (text: string): Bundle["metadata"] => {
+  if (text.trim().length === 0) {
+    return null;
+  }
+  return JSON.parse(text);
+};
+
+const validateMetadataText = (text: string) => {
+  try {
+    const metadata = parseMetadataText(text);
+    if (
+      metadata !== null &&
+      (typeof metadata !== "object" || Array.isArray(metadata))
+    ) {
+      return "Metadata must be a JSON object";
+    }
+    return undefined;
+  } catch {
+    return "Invalid JSON";
+  }
+};
+
 const EditBundleSheetForm = ({
   bundle,
   onEditSuccess,
@@ -87,13 +196,15 @@ const EditBundleSheetForm = ({
       targetAppVersion: bundle.targetAppVersion,
       enabled: bundle.enabled,
       shouldForceUpdate: bundle.shouldForceUpdate,
-    } as Partial<Bundle>,
+      rolloutPercentage: bundle.rolloutPercentage ?? 100,
+      metadata: bundle.metadata ? JSON.stringify(bundle.metadata, null, 2) : "",
+    } as EditBundleFormValues,
     onSubmit: async ({ value }) => {
       setIsSubmitting(true);
       try {
         const res = await api.bundles[":bundleId"].$patch({
           param: { bundleId: bundle.id },
-          json: value,
+          json: { ...value, metadata: parseMetadataText(value.metadata) },
         });
         if (res.status !== 200) {
           const json = (await res.json()) as { error: string };
@@ -244,6 +355,78 @@ const EditBundleSheetForm = ({
         </p>
       </div>
 
+      <div>
+        <form.Field name="rolloutPercentage">
+          {(field) => (
+            <Slider
+              class="max-w-sm space-y-3"
+              minValue={0}
+              maxValue={100}
+              step={1}
+              value={[field().state.value ?? 100]}
+              getValueLabel={(params) => `${params.values[0]}%`}
+              onChange={(value) => field().handleChange(value[0])}
+            >
+              <div class="flex w-full justify-between">
+                <SliderLabel class="text-sm font-medium leading-none">
+                  Rollout
+                </SliderLabel>
+                <SliderValueLabel class="text-sm text-muted-foreground" />
+              </div>
+              <SliderTrack>
+                <SliderFill />
+                <SliderThumb />
+              </SliderTrack>
+            </Slider>
+          )}
+        </form.Field>
+        <p class="text-xs text-muted-foreground mt-[2px]">
+          Percentage of devices that receive this update. Devices outside the
+          rollout receive the previous update instead.
+        </p>
+      </div>
+
+      <div>
+        <TextField class="grid w-full max-w-sm items-center gap-1.5">
+          <TextFieldLabel for="metadata">Metadata</TextFieldLabel>
+          <form.Field
+            name="metadata"
+            validators={{
+              onChange: ({ value }) => validateMetadataText(value),
+            }}
+          >
+            {(field) => (
+              <>
+                <TextFieldTextArea
+                  id="metadata"
+                  class={cn(
+                    "font-mono text-xs",
+                    field().state.meta.errors.length > 0 &&
+                      "border-red-500 focus-visible:ring-red-500",
+                  )}
+                  placeholder='{ "releaseUrl": "https://..." }'
+                  name={field().name}
+                  value={field().state.value}
+                  onBlur={field().handleBlur}
+                  onInput={(e) => field().handleChange(e.currentTarget.value)}
+                />
+                {field().state.meta.errors.length > 0 ? (
+                  <em class="text-xs text-red-500">
+                    {field().state.meta.errors.join(", ")}
+                  </em>
+                ) : (
+                  <p class="text-xs text-muted-foreground">
+                    JSON object delivered to the app with the update.
+                  </p>
+                )}
+              </>
+            )}
+          </form.Field>
+        </TextField>
+      </div>
+
+      <PinBundleButton bundle={bundle} />
+
       <Show
         when={!isSubmitting()}
         fallback={
@@ -257,7 +440,14 @@ const EditBundleSheetForm = ({
         </Button>
       </Show>
 
-      <div class="flex justify-end">
+      <div class="flex justify-end gap-3">
+        <Show when={bundle.fingerprintHash}>
+          {(fingerprintHash) => (
+            <p class="text-xs text-muted-foreground" title={fingerprintHash()}>
+              Fingerprint: {fingerprintHash().slice(0, 8)}
+            </p>
+          )}
+        </Show>
         <Show when={gitCommitHash()}>
           {(gitCommitHash) =>
             gitUrl() ? (
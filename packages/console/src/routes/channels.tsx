@@ -0,0 +1,308 @@
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  TextField,
+  TextFieldInput,
+  TextFieldLabel,
+} from "@/components/ui/text-field";
+import { showToast } from "@/components/ui/toast";
+import { api, createChannelConfigsQuery } from "@/lib/api";
+import type {
+  ChannelConfig,
+  ChannelMode,
+  RollbackPolicy,
+} from "@hot-updater/core";
+import { createForm } from "@tanstack/solid-form";
+import { useQueryClient } from "@tanstack/solid-query";
+import { LoaderCircle, Trash2 } from "lucide-solid";
+import { For, Show, createSignal } from "solid-js";
+import { ChannelPlatformSettings } from "./_components/channel-platform-settings";
+
+const modes = [
+  { label: "Normal", value: "normal" },
+  { label: "Paused", value: "paused" },
+  { label: "Revert", value: "revert-to-embedded" },
+] as const;
+
+const rollbackPolicies = [
+  { label: "Force", value: "force" },
+  { label: "Next Launch", value: "next-launch" },
+  { label: "None", value: "none" },
+] as const;
+
+const showError = (description: string) => {
+  showToast({
+    title: "Error",
+    description,
+    variant: "error",
+  });
+};
+
+export default function Channels() {
+  const queryClient = useQueryClient();
+  const channelConfigs = createChannelConfigsQuery();
+
+  const [isSubmitting, setIsSubmitting] = createSignal(false);
+
+  const form = createForm(() => ({
+    defaultValues: {
+      channel: "",
+      parentChannel: "",
+    },
+    onSubmit: async ({ value }) => {
+      setIsSubmitting(true);
+      try {
+        const res = await api["channel-configs"][":channel"].$put({
+          param: { channel: value.channel.trim() },
+          json: {
+            parentChannel: value.parentChannel.trim() || null,
+          },
+        });
+        if (res.status !== 200) {
+          const json = (await res.json()) as { error: string };
+          showError(json.error);
+          return;
+        }
+        form.reset();
+      } catch (e) {
+        if (e instanceof Error) {
+          showError(e.message);
+        }
+      } finally {
+        setIsSubmitting(false);
+        queryClient.invalidateQueries({ queryKey: ["channel-configs"] });
+      }
+    },
+  }));
+
+  const handleChange = async (
+    channelConfig: ChannelConfig,
+    changes: { mode?: ChannelMode; rollbackPolicy?: RollbackPolicy },
+  ) => {
+    try {
+      const res = await api["channel-configs"][":channel"].$put({
+        param: { channel: channelConfig.channel },
+        json: { parentChannel: channelConfig.parentChannel, ...changes },
+      });
+      if (res.status !== 200) {
+        const json = (await res.json()) as { error: string };
+        showError(json.error);
+      }
+    } catch (e) {
+      if (e instanceof Error) {
+        showError(e.message);
+      }
+    } finally {
+      queryClient.invalidateQueries({ queryKey: ["channel-configs"] });
+    }
+  };
+
+  const handleDelete = async (channel: string) => {
+    try {
+      const res = await api["channel-configs"][":channel"].$delete({
+        param: { channel },
+      });
+      if (res.status !== 200) {
+        const json = (await res.json()) as { error: string };
+        showError(json.error);
+      }
+    } catch (e) {
+      if (e instanceof Error) {
+        showError(e.message);
+      }
+    } finally {
+      queryClient.invalidateQueries({ queryKey: ["channel-configs"] });
+    }
+  };
+
+  return (
+    <div class="flex flex-col gap-6">
+      <div>
+        <h2 class="text-lg font-medium">Channels</h2>
+        <p class="text-sm text-muted-foreground">
+          A channel with a parent inherits its bundles, e.g. app-acme →
+          production. Devices receive the newest eligible bundle across the
+          channel and its parents. In an incident, pause a channel to stop
+          serving bundles or revert it to send devices back to the bundle
+          embedded in the app. The rollback policy decides whether devices
+          running a disabled or deleted bundle roll back immediately, on the
+          next launch or not at all. Child channels follow their parents.
+        </p>
+      </div>
+
+      <Show when={channelConfigs.data?.supported === false}>
+        <p class="text-sm text-red-500">
+          The configured database plugin does not support channel settings.
+        </p>
+      </Show>
+
+      <form
+        class="flex flex-row flex-wrap items-end gap-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          form.handleSubmit();
+        }}
+      >
+        <form.Field
+          name="channel"
+          validators={{
+            onChange: ({ value }) =>
+              value.trim().length === 0 ? "Channel is required" : undefined,
+          }}
+        >
+          {(field) => (
+            <TextField class="grid w-full max-w-xs items-center gap-1.5">
+              <TextFieldLabel for="channel">Channel</TextFieldLabel>
+              <TextFieldInput
+                type="text"
+                id="channel"
+                placeholder="app-acme"
+                name={field().name}
+                value={field().state.value}
+                onBlur={field().handleBlur}
+                onInput={(e) => field().handleChange(e.currentTarget.value)}
+              />
+            </TextField>
+          )}
+        </form.Field>
+
+        <form.Field name="parentChannel">
+          {(field) => (
+            <TextField class="grid w-full max-w-xs items-center gap-1.5">
+              <TextFieldLabel for="parentChannel">
+                Parent Channel
+              </TextFieldLabel>
+              <TextFieldInput
+                type="text"
+                id="parentChannel"
+                placeholder="production"
+                name={field().name}
+                value={field().state.value}
+                onBlur={field().handleBlur}
+                onInput={(e) => field().handleChange(e.currentTarget.value)}
+              />
+            </TextField>
+          )}
+        </form.Field>
+
+        <form.Subscribe
+          selector={(state) => ({
+            canSubmit:
+              state.canSubmit && state.values.channel.trim().length > 0,
+          })}
+        >
+          {(state) => (
+            <Button
+              type="submit"
+              disabled={!state().canSubmit || isSubmitting()}
+            >
+              <Show when={isSubmitting()} fallback="Save">
+                <LoaderCircle class="animate-spin" />
+              </Show>
+            </Button>
+          )}
+        </form.Subscribe>
+      </form>
+
+      <div class="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Channel</TableHead>
+              <TableHead>Parent Channel</TableHead>
+              <TableHead>Mode</TableHead>
+              <TableHead>Rollback Policy</TableHead>
+              <TableHead class="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            <For
+              each={channelConfigs.data?.channelConfigs}
+              fallback={
+                <TableRow>
+                  <TableCell colSpan={5} class="h-24 text-center">
+                    No channel settings.
+                  </TableCell>
+                </TableRow>
+              }
+            >
+              {(channelConfig) => (
+                <TableRow>
+                  <TableCell>{channelConfig.channel}</TableCell>
+                  <TableCell>{channelConfig.parentChannel ?? "-"}</TableCell>
+                  <TableCell>
+                    <div class="flex flex-row gap-1">
+                      <For each={modes}>
+                        {(mode) => (
+                          <Button
+                            size="sm"
+                            variant={
+                              (channelConfig.mode ?? "normal") === mode.value
+                                ? mode.value === "normal"
+                                  ? "default"
+                                  : "destructive"
+                                : "outline"
+                            }
+                            onClick={() =>
+                              handleChange(channelConfig, { mode: mode.value })
+                            }
+                          >
+                            {mode.label}
+                          </Button>
+                        )}
+                      </For>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div class="flex flex-row gap-1">
+                      <For each={rollbackPolicies}>
+                        {(rollbackPolicy) => (
+                          <Button
+                            size="sm"
+                            variant={
+                              (channelConfig.rollbackPolicy ?? "force") ===
+                              rollbackPolicy.value
+                                ? "default"
+                                : "outline"
+                            }
+                            onClick={() =>
+                              handleChange(channelConfig, {
+                                rollbackPolicy: rollbackPolicy.value,
+                              })
+                            }
+                          >
+                            {rollbackPolicy.label}
+                          </Button>
+                        )}
+                      </For>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Remove channel settings"
+                      onClick={() => handleDelete(channelConfig.channel)}
+                    >
+                      <Trash2 class="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              )}
+            </For>
+          </TableBody>
+        </Table>
+      </div>
+
+      <ChannelPlatformSettings />
+    </div>
+  );
+}
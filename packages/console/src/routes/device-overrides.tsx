@@ -0,0 +1,234 @@
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  TextField,
+  TextFieldInput,
+  TextFieldLabel,
+} from "@/components/ui/text-field";
+import { showToast } from "@/components/ui/toast";
+import { api, createDeviceOverridesQuery } from "@/lib/api";
+import { createForm } from "@tanstack/solid-form";
+import { useQueryClient } from "@tanstack/solid-query";
+import { LoaderCircle, Trash2 } from "lucide-solid";
+import { For, Show, createSignal } from "solid-js";
+
+const showError = (description: string) => {
+  showToast({
+    title: "Error",
+    description,
+    variant: "error",
+  });
+};
+
+export default function DeviceOverrides() {
+  const queryClient = useQueryClient();
+  const deviceOverrides = createDeviceOverridesQuery();
+
+  const [isSubmitting, setIsSubmitting] = createSignal(false);
+
+  const form = createForm(() => ({
+    defaultValues: {
+      deviceId: "",
+      channel: "",
+      bundleId: "",
+    },
+    onSubmit: async ({ value }) => {
+      setIsSubmitting(true);
+      try {
+        const res = await api["device-overrides"][":deviceId"].$put({
+          param: { deviceId: value.deviceId.trim() },
+          json: {
+            channel: value.channel.trim() || null,
+            bundleId: value.bundleId.trim() || null,
+          },
+        });
+        if (res.status !== 200) {
+          const json = (await res.json()) as { error: string };
+          showError(json.error);
+          return;
+        }
+        form.reset();
+      } catch (e) {
+        if (e instanceof Error) {
+          showError(e.message);
+        }
+      } finally {
+        setIsSubmitting(false);
+        queryClient.invalidateQueries({ queryKey: ["device-overrides"] });
+      }
+    },
+  }));
+
+  const handleDelete = async (deviceId: string) => {
+    try {
+      const res = await api["device-overrides"][":deviceId"].$delete({
+        param: { deviceId },
+      });
+      if (res.status !== 200) {
+        const json = (await res.json()) as { error: string };
+        showError(json.error);
+      }
+    } catch (e) {
+      if (e instanceof Error) {
+        showError(e.message);
+      }
+    } finally {
+      queryClient.invalidateQueries({ queryKey: ["device-overrides"] });
+    }
+  };
+
+  return (
+    <div class="flex flex-col gap-6">
+      <div>
+        <h2 class="text-lg font-medium">Device Overrides</h2>
+        <p class="text-sm text-muted-foreground">
+          Assign a device to a channel or to a specific bundle. Overrides are
+          applied by the update server before the channel reported by the app.
+        </p>
+      </div>
+
+      <Show when={deviceOverrides.data?.supported === false}>
+        <p class="text-sm text-red-500">
+          The configured database plugin does not support device overrides.
+        </p>
+      </Show>
+
+      <form
+        class="flex flex-row flex-wrap items-end gap-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          form.handleSubmit();
+        }}
+      >
+        <form.Field
+          name="deviceId"
+          validators={{
+            onChange: ({ value }) =>
+              value.trim().length === 0 ? "Device ID is required" : undefined,
+          }}
+        >
+          {(field) => (
+            <TextField class="grid w-full max-w-xs items-center gap-1.5">
+              <TextFieldLabel for="deviceId">Device ID</TextFieldLabel>
+              <TextFieldInput
+                type="text"
+                id="deviceId"
+                placeholder="Device ID"
+                name={field().name}
+                value={field().state.value}
+                onBlur={field().handleBlur}
+                onInput={(e) => field().handleChange(e.currentTarget.value)}
+              />
+            </TextField>
+          )}
+        </form.Field>
+
+        <form.Field name="channel">
+          {(field) => (
+            <TextField class="grid w-full max-w-xs items-center gap-1.5">
+              <TextFieldLabel for="channel">Channel</TextFieldLabel>
+              <TextFieldInput
+                type="text"
+                id="channel"
+                placeholder="production"
+                name={field().name}
+                value={field().state.value}
+                onBlur={field().handleBlur}
+                onInput={(e) => field().handleChange(e.currentTarget.value)}
+              />
+            </TextField>
+          )}
+        </form.Field>
+
+        <form.Field name="bundleId">
+          {(field) => (
+            <TextField class="grid w-full max-w-xs items-center gap-1.5">
+              <TextFieldLabel for="bundleId">Bundle ID</TextFieldLabel>
+              <TextFieldInput
+                type="text"
+                id="bundleId"
+                placeholder="Bundle ID (takes precedence)"
+                name={field().name}
+                value={field().state.value}
+                onBlur={field().handleBlur}
+                onInput={(e) => field().handleChange(e.currentTarget.value)}
+              />
+            </TextField>
+          )}
+        </form.Field>
+
+        <form.Subscribe
+          selector={(state) => ({
+            canSubmit:
+              state.canSubmit &&
+              state.values.deviceId.trim().length > 0 &&
+              (state.values.channel.trim().length > 0 ||
+                state.values.bundleId.trim().length > 0),
+          })}
+        >
+          {(state) => (
+            <Button
+              type="submit"
+              disabled={!state().canSubmit || isSubmitting()}
+            >
+              <Show when={isSubmitting()} fallback="Save">
+                <LoaderCircle class="animate-spin" />
+              </Show>
+            </Button>
+          )}
+        </form.Subscribe>
+      </form>
+
+      <div class="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Device ID</TableHead>
+              <TableHead>Channel</TableHead>
+              <TableHead>Bundle ID</TableHead>
+              <TableHead class="w-12" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            <For
+              each={deviceOverrides.data?.deviceOverrides}
+              fallback={
+                <TableRow>
+                  <TableCell colSpan={4} class="h-24 text-center">
+                    No device overrides.
+                  </TableCell>
+                </TableRow>
+              }
+            >
+              {(deviceOverride) => (
+                <TableRow>
+                  <TableCell>{deviceOverride.deviceId}</TableCell>
+                  <TableCell>{deviceOverride.channel ?? "-"}</TableCell>
+                  <TableCell>{deviceOverride.bundleId ?? "-"}</TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      aria-label="Remove device override"
+                      onClick={() => handleDelete(deviceOverride.deviceId)}
+                    >
+                      <Trash2 class="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              )}
+            </For>
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
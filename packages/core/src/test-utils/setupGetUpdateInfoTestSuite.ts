@@ -1,5 +1,10 @@
 import { expect, it } from "vitest";
-import type { Bundle, GetBundlesArgs, UpdateInfo } from "../types";
+import type {
+  Bundle,
+  GetBundlesArgs,
+  UpdateInfo,
+  UpdateResolutionContext,
+} from "../types";
 import { NIL_UUID } from "../uuid";
 
 const DEFAULT_BUNDLE = {
@@ -23,6 +28,7 @@ export const setupGetUpdateInfoTestSuite = ({
   getUpdateInfo: (
     bundles: Bundle[],
     options: GetBundlesArgs,
+    context?: UpdateResolutionContext,
   ) => Promise<UpdateInfo | null>;
 }) => {
   it("applies an update when a '*' bundle is available", async () => {
@@ -853,4 +859,2199 @@ export const setupGetUpdateInfoTestSuite = ({
 
     expect(update).toBeNull();
   });
+
+  // Rollout buckets: "device-a" -> 53, "device-c" -> 15
+  it("applies an update when the device is inside the rollout", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        rolloutPercentage: 20,
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+    ];
+
+    const update = await getUpdateInfo(bundles, {
+      appVersion: "1.0",
+      bundleId: NIL_UUID,
+      platform: "ios",
+      deviceId: "device-c",
+    });
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000001",
+      message: "hello",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+    });
+  });
+
+  it("falls back to the next-newest bundle when the device is outside the rollout", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        rolloutPercentage: 20,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        message: "stable",
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+    ];
+
+    const update = await getUpdateInfo(bundles, {
+      appVersion: "1.0",
+      bundleId: NIL_UUID,
+      platform: "ios",
+      deviceId: "device-a",
+    });
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000001",
+      message: "stable",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+    });
+  });
+
+  it("returns null when the device is already on the newest bundle of its rollout", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        rolloutPercentage: 50,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+    ];
+
+    const update = await getUpdateInfo(bundles, {
+      appVersion: "1.0",
+      bundleId: "00000000-0000-0000-0000-000000000001",
+      platform: "ios",
+      deviceId: "device-a",
+    });
+
+    expect(update).toBeNull();
+  });
+
+  it("does not serve a partial rollout to devices without a device id", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        rolloutPercentage: 99,
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+    ];
+
+    const update = await getUpdateInfo(bundles, {
+      appVersion: "1.0",
+      bundleId: NIL_UUID,
+      platform: "ios",
+    });
+
+    expect(update).toBeNull();
+  });
+
+  it("does not serve a bundle with a rollout percentage of 0", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        rolloutPercentage: 0,
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+    ];
+
+    const update = await getUpdateInfo(bundles, {
+      appVersion: "1.0",
+      bundleId: NIL_UUID,
+      platform: "ios",
+      deviceId: "device-c",
+    });
+
+    expect(update).toBeNull();
+  });
+
+  it("serves the channel assigned to the device by an override", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        channel: "beta",
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000002",
+        message: "beta",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: "00000000-0000-0000-0000-000000000001",
+        platform: "ios",
+        deviceId: "device-a",
+      },
+      {
+        deviceOverrides: [
+          { deviceId: "device-a", channel: "beta", bundleId: null },
+        ],
+      },
+    );
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000002",
+      message: "beta",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+    });
+  });
+
+  it("ignores overrides of other devices", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        channel: "beta",
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: NIL_UUID,
+        platform: "ios",
+        deviceId: "device-c",
+      },
+      {
+        deviceOverrides: [
+          { deviceId: "device-a", channel: "beta", bundleId: null },
+        ],
+      },
+    );
+
+    expect(update).toBeNull();
+  });
+
+  it("serves the bundle assigned to the device even if it is disabled or outside the rollout", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        channel: "qa",
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: false,
+        rolloutPercentage: 0,
+        id: "00000000-0000-0000-0000-000000000001",
+        message: "assigned",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: NIL_UUID,
+        platform: "ios",
+        deviceId: "device-a",
+      },
+      {
+        deviceOverrides: [
+          {
+            deviceId: "device-a",
+            channel: null,
+            bundleId: "00000000-0000-0000-0000-000000000001",
+          },
+        ],
+      },
+    );
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000001",
+      message: "assigned",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+    });
+  });
+
+  it("rolls back to the bundle assigned to the device when it is older than the current bundle", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000001",
+        message: "assigned",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: "00000000-0000-0000-0000-000000000002",
+        platform: "ios",
+        deviceId: "device-a",
+      },
+      {
+        deviceOverrides: [
+          {
+            deviceId: "device-a",
+            channel: null,
+            bundleId: "00000000-0000-0000-0000-000000000001",
+          },
+        ],
+      },
+    );
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000001",
+      message: "assigned",
+      shouldForceUpdate: true,
+      status: "ROLLBACK",
+    });
+  });
+
+  it("returns null when the device already runs its assigned bundle", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: "00000000-0000-0000-0000-000000000001",
+        platform: "ios",
+        deviceId: "device-a",
+      },
+      {
+        deviceOverrides: [
+          {
+            deviceId: "device-a",
+            channel: null,
+            bundleId: "00000000-0000-0000-0000-000000000001",
+          },
+        ],
+      },
+    );
+
+    expect(update).toBeNull();
+  });
+
+  it("falls back to the channel when the assigned bundle does not target the app version", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "2.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        channel: "beta",
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000001",
+        message: "beta",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: NIL_UUID,
+        platform: "ios",
+        deviceId: "device-a",
+      },
+      {
+        deviceOverrides: [
+          {
+            deviceId: "device-a",
+            channel: "beta",
+            bundleId: "00000000-0000-0000-0000-000000000002",
+          },
+        ],
+      },
+    );
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000001",
+      message: "beta",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+    });
+  });
+
+  it("applies an update when the fingerprint of the bundle matches the app", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        fingerprintHash: "fingerprint-a",
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+    ];
+
+    const update = await getUpdateInfo(bundles, {
+      appVersion: "1.0",
+      bundleId: NIL_UUID,
+      platform: "ios",
+      fingerprintHash: "fingerprint-a",
+    });
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000001",
+      message: "hello",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+    });
+  });
+
+  it("skips bundles built for a different fingerprint", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        fingerprintHash: "fingerprint-b",
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        fingerprintHash: "fingerprint-a",
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+    ];
+
+    const update = await getUpdateInfo(bundles, {
+      appVersion: "1.0",
+      bundleId: NIL_UUID,
+      platform: "ios",
+      fingerprintHash: "fingerprint-a",
+    });
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000001",
+      message: "hello",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+    });
+  });
+
+  it("does not serve a fingerprinted bundle to an app without a fingerprint", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        fingerprintHash: "fingerprint-a",
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+    ];
+
+    const update = await getUpdateInfo(bundles, {
+      appVersion: "1.0",
+      bundleId: NIL_UUID,
+      platform: "ios",
+    });
+
+    expect(update).toBeNull();
+  });
+
+  it("does not serve a fingerprinted bundle to an app without a fingerprint outside its target app version", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "2.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        fingerprintHash: "fingerprint-a",
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+    ];
+
+    const update = await getUpdateInfo(bundles, {
+      appVersion: "1.0",
+      bundleId: NIL_UUID,
+      platform: "ios",
+    });
+
+    expect(update).toBeNull();
+  });
+
+  it("serves a bundle without a fingerprint to an app with a fingerprint by its target app version", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+    ];
+
+    const update = await getUpdateInfo(bundles, {
+      appVersion: "1.0",
+      bundleId: NIL_UUID,
+      platform: "ios",
+      fingerprintHash: "fingerprint-a",
+    });
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000001",
+      message: "hello",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+    });
+  });
+
+  it("rolls back to the original bundle when no bundle matches the fingerprint of the app", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        fingerprintHash: "fingerprint-b",
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+    ];
+
+    const update = await getUpdateInfo(bundles, {
+      appVersion: "1.0",
+      bundleId: "00000000-0000-0000-0000-000000000001",
+      platform: "ios",
+      fingerprintHash: "fingerprint-a",
+    });
+
+    expect(update).toStrictEqual(INIT_BUNDLE_ROLLBACK_UPDATE_INFO);
+  });
+
+  it("falls back to the channel when the assigned bundle has a different fingerprint", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        fingerprintHash: "fingerprint-b",
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        fingerprintHash: "fingerprint-a",
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: NIL_UUID,
+        platform: "ios",
+        deviceId: "device-a",
+        fingerprintHash: "fingerprint-a",
+      },
+      {
+        deviceOverrides: [
+          {
+            deviceId: "device-a",
+            channel: null,
+            bundleId: "00000000-0000-0000-0000-000000000002",
+          },
+        ],
+      },
+    );
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000001",
+      message: "hello",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+    });
+  });
+
+  it("serves bundles of the parent channel when the channel has none", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: NIL_UUID,
+        platform: "ios",
+        channel: "app-acme",
+      },
+      {
+        channelConfigs: [{ channel: "app-acme", parentChannel: "production" }],
+      },
+    );
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000001",
+      message: "hello",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+    });
+  });
+
+  it("serves the newest bundle across the channel chain", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000003",
+        message: "production",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        channel: "app-acme",
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000002",
+        message: "acme",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        channel: "app-globex",
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000004",
+        message: "globex",
+      },
+    ];
+    const channelConfigs = [
+      { channel: "app-acme", parentChannel: "production" },
+      { channel: "app-globex", parentChannel: "production" },
+    ];
+
+    const acmeUpdate = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: "00000000-0000-0000-0000-000000000002",
+        platform: "ios",
+        channel: "app-acme",
+      },
+      { channelConfigs },
+    );
+
+    expect(acmeUpdate).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000003",
+      message: "production",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+    });
+  });
+
+  it("returns null when the device runs a bundle of its own channel that is newer than the parent channel", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000001",
+        message: "production",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        channel: "app-acme",
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000002",
+        message: "acme",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: "00000000-0000-0000-0000-000000000002",
+        platform: "ios",
+        channel: "app-acme",
+      },
+      {
+        channelConfigs: [{ channel: "app-acme", parentChannel: "production" }],
+      },
+    );
+
+    expect(update).toBeNull();
+  });
+
+  it("follows the channel chain over several levels", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: NIL_UUID,
+        platform: "ios",
+        deviceId: "device-a",
+      },
+      {
+        deviceOverrides: [
+          { deviceId: "device-a", channel: "app-acme-beta", bundleId: null },
+        ],
+        channelConfigs: [
+          { channel: "app-acme", parentChannel: "production" },
+          { channel: "app-acme-beta", parentChannel: "app-acme" },
+        ],
+      },
+    );
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000001",
+      message: "hello",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+    });
+  });
+
+  it("does not serve bundles of a child channel to the parent channel", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        channel: "app-acme",
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: NIL_UUID,
+        platform: "ios",
+        channel: "production",
+      },
+      {
+        channelConfigs: [{ channel: "app-acme", parentChannel: "production" }],
+      },
+    );
+
+    expect(update).toBeNull();
+  });
+
+  it("does not roll back to a bundle of another channel", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: false,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        channel: "beta",
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+    ];
+
+    const update = await getUpdateInfo(bundles, {
+      appVersion: "1.0",
+      bundleId: "00000000-0000-0000-0000-000000000002",
+      platform: "ios",
+      channel: "production",
+    });
+
+    expect(update).toStrictEqual(INIT_BUNDLE_ROLLBACK_UPDATE_INFO);
+  });
+
+  it("rolls back to a bundle of the parent channel", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        channel: "app-acme",
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: false,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: "00000000-0000-0000-0000-000000000002",
+        platform: "ios",
+        channel: "app-acme",
+      },
+      {
+        channelConfigs: [{ channel: "app-acme", parentChannel: "production" }],
+      },
+    );
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000001",
+      message: "hello",
+      shouldForceUpdate: true,
+      status: "ROLLBACK",
+    });
+  });
+
+  it("does not roll back to a bundle targeting another app version", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "1.0",
+        shouldForceUpdate: false,
+        enabled: false,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "2.0",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+    ];
+
+    const update = await getUpdateInfo(bundles, {
+      appVersion: "1.0",
+      bundleId: "00000000-0000-0000-0000-000000000002",
+      platform: "ios",
+    });
+
+    expect(update).toStrictEqual(INIT_BUNDLE_ROLLBACK_UPDATE_INFO);
+  });
+
+  it("requires a native update when the app is older than the minimum app version of the channel", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.9.0",
+        bundleId: "00000000-0000-0000-0000-000000000001",
+        platform: "ios",
+      },
+      {
+        channelPlatformConfigs: [
+          {
+            channel: "production",
+            platform: "ios",
+            minAppVersion: "2.0.0",
+            storeUrl: "https://apps.apple.com/app/id000000000",
+          },
+        ],
+      },
+    );
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000001",
+      message: null,
+      shouldForceUpdate: true,
+      status: "NATIVE_UPDATE_REQUIRED",
+      storeUrl: "https://apps.apple.com/app/id000000000",
+    });
+  });
+
+  it("serves bundles when the app meets the minimum app version", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "2.0",
+        bundleId: "00000000-0000-0000-0000-000000000001",
+        platform: "ios",
+      },
+      {
+        channelPlatformConfigs: [
+          {
+            channel: "production",
+            platform: "ios",
+            minAppVersion: "2.0.0",
+            storeUrl: "https://apps.apple.com/app/id000000000",
+          },
+        ],
+      },
+    );
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000002",
+      message: "hello",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+    });
+  });
+
+  it("ignores the minimum app version of other platforms and channels", async () => {
+    const update = await getUpdateInfo(
+      [],
+      {
+        appVersion: "1.0.0",
+        bundleId: NIL_UUID,
+        platform: "ios",
+      },
+      {
+        channelPlatformConfigs: [
+          {
+            channel: "production",
+            platform: "android",
+            minAppVersion: "2.0.0",
+            storeUrl: null,
+          },
+          {
+            channel: "beta",
+            platform: "ios",
+            minAppVersion: "2.0.0",
+            storeUrl: null,
+          },
+        ],
+      },
+    );
+
+    expect(update).toBeNull();
+  });
+
+  it("inherits the minimum app version from the parent channel", async () => {
+    const update = await getUpdateInfo(
+      [],
+      {
+        appVersion: "1.0.0",
+        bundleId: NIL_UUID,
+        platform: "android",
+        channel: "app-acme",
+      },
+      {
+        channelConfigs: [{ channel: "app-acme", parentChannel: "production" }],
+        channelPlatformConfigs: [
+          {
+            channel: "production",
+            platform: "android",
+            minAppVersion: "1.2.0",
+            storeUrl: null,
+          },
+        ],
+      },
+    );
+
+    expect(update).toStrictEqual({
+      id: NIL_UUID,
+      message: null,
+      shouldForceUpdate: true,
+      status: "NATIVE_UPDATE_REQUIRED",
+      storeUrl: null,
+    });
+  });
+
+  it("rolls back to the pinned bundle of the channel despite newer bundles", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        enabled: true,
+        shouldForceUpdate: false,
+        id: "00000000-0000-0000-0000-000000000003",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        enabled: true,
+        shouldForceUpdate: false,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        enabled: true,
+        shouldForceUpdate: false,
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: "00000000-0000-0000-0000-000000000003",
+        platform: "ios",
+      },
+      {
+        channelPlatformConfigs: [
+          {
+            channel: "production",
+            platform: "ios",
+            minAppVersion: null,
+            storeUrl: null,
+            pinnedBundleId: "00000000-0000-0000-0000-000000000001",
+          },
+        ],
+      },
+    );
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000001",
+      message: "hello",
+      shouldForceUpdate: true,
+      status: "ROLLBACK",
+    });
+  });
+
+  it("updates to the pinned bundle", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        enabled: true,
+        shouldForceUpdate: false,
+        id: "00000000-0000-0000-0000-000000000003",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        enabled: true,
+        shouldForceUpdate: false,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: NIL_UUID,
+        platform: "ios",
+      },
+      {
+        channelPlatformConfigs: [
+          {
+            channel: "production",
+            platform: "ios",
+            minAppVersion: null,
+            storeUrl: null,
+            pinnedBundleId: "00000000-0000-0000-0000-000000000002",
+          },
+        ],
+      },
+    );
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000002",
+      message: "hello",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+    });
+  });
+
+  it("stays on the pinned bundle when newer bundles exist", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        enabled: true,
+        shouldForceUpdate: false,
+        id: "00000000-0000-0000-0000-000000000003",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        enabled: true,
+        shouldForceUpdate: false,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: "00000000-0000-0000-0000-000000000002",
+        platform: "ios",
+      },
+      {
+        channelPlatformConfigs: [
+          {
+            channel: "production",
+            platform: "ios",
+            minAppVersion: null,
+            storeUrl: null,
+            pinnedBundleId: "00000000-0000-0000-0000-000000000002",
+          },
+        ],
+      },
+    );
+
+    expect(update).toBeNull();
+  });
+
+  it("inherits the pinned bundle from the parent channel", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        channel: "app-acme",
+        targetAppVersion: "*",
+        enabled: true,
+        shouldForceUpdate: false,
+        id: "00000000-0000-0000-0000-000000000003",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        enabled: true,
+        shouldForceUpdate: false,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: NIL_UUID,
+        platform: "ios",
+        channel: "app-acme",
+      },
+      {
+        channelConfigs: [{ channel: "app-acme", parentChannel: "production" }],
+        channelPlatformConfigs: [
+          {
+            channel: "production",
+            platform: "ios",
+            minAppVersion: null,
+            storeUrl: null,
+            pinnedBundleId: "00000000-0000-0000-0000-000000000002",
+          },
+        ],
+      },
+    );
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000002",
+      message: "hello",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+    });
+  });
+
+  it("ignores a pinned bundle that cannot run on the app", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "1.0",
+        enabled: true,
+        shouldForceUpdate: false,
+        id: "00000000-0000-0000-0000-000000000003",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "2.0",
+        enabled: true,
+        shouldForceUpdate: false,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: NIL_UUID,
+        platform: "ios",
+      },
+      {
+        channelPlatformConfigs: [
+          {
+            channel: "production",
+            platform: "ios",
+            minAppVersion: null,
+            storeUrl: null,
+            pinnedBundleId: "00000000-0000-0000-0000-000000000002",
+          },
+          {
+            channel: "production",
+            platform: "android",
+            minAppVersion: null,
+            storeUrl: null,
+            pinnedBundleId: "00000000-0000-0000-0000-000000000003",
+          },
+        ],
+      },
+    );
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000003",
+      message: "hello",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+    });
+  });
+
+  it("prefers the device override bundle over the pinned bundle", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        enabled: true,
+        shouldForceUpdate: false,
+        id: "00000000-0000-0000-0000-000000000003",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        enabled: true,
+        shouldForceUpdate: false,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: NIL_UUID,
+        platform: "ios",
+        deviceId: "qa-device",
+      },
+      {
+        deviceOverrides: [
+          {
+            deviceId: "qa-device",
+            channel: null,
+            bundleId: "00000000-0000-0000-0000-000000000003",
+          },
+        ],
+        channelPlatformConfigs: [
+          {
+            channel: "production",
+            platform: "ios",
+            minAppVersion: null,
+            storeUrl: null,
+            pinnedBundleId: "00000000-0000-0000-0000-000000000002",
+          },
+        ],
+      },
+    );
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000003",
+      message: "hello",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+    });
+  });
+
+  it("serves nothing when the channel is paused", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: "00000000-0000-0000-0000-000000000001",
+        platform: "ios",
+      },
+      {
+        channelConfigs: [
+          { channel: "production", parentChannel: null, mode: "paused" },
+        ],
+      },
+    );
+
+    expect(update).toBeNull();
+  });
+
+  it("sends devices back to the built-in bundle when the channel reverts to embedded", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: "00000000-0000-0000-0000-000000000002",
+        platform: "ios",
+      },
+      {
+        channelConfigs: [
+          {
+            channel: "production",
+            parentChannel: null,
+            mode: "revert-to-embedded",
+          },
+        ],
+      },
+    );
+
+    expect(update).toStrictEqual(INIT_BUNDLE_ROLLBACK_UPDATE_INFO);
+  });
+
+  it("serves nothing to the built-in bundle when the channel reverts to embedded", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: NIL_UUID,
+        platform: "ios",
+      },
+      {
+        channelConfigs: [
+          {
+            channel: "production",
+            parentChannel: null,
+            mode: "revert-to-embedded",
+          },
+        ],
+      },
+    );
+
+    expect(update).toBeNull();
+  });
+
+  it("pauses the channels inheriting from a paused channel", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        channel: "app-acme",
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: NIL_UUID,
+        platform: "ios",
+        channel: "app-acme",
+      },
+      {
+        channelConfigs: [
+          { channel: "app-acme", parentChannel: "production", mode: "normal" },
+          { channel: "production", parentChannel: null, mode: "paused" },
+        ],
+      },
+    );
+
+    expect(update).toBeNull();
+  });
+
+  it("keeps serving channels that are not paused", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: NIL_UUID,
+        platform: "ios",
+      },
+      {
+        channelConfigs: [
+          { channel: "production", parentChannel: null, mode: "normal" },
+          { channel: "beta", parentChannel: null, mode: "paused" },
+        ],
+      },
+    );
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000002",
+      message: "hello",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+    });
+  });
+
+  it("ignores the device override bundle when the channel is paused", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: NIL_UUID,
+        platform: "ios",
+        deviceId: "qa-device",
+      },
+      {
+        deviceOverrides: [
+          {
+            deviceId: "qa-device",
+            channel: null,
+            bundleId: "00000000-0000-0000-0000-000000000002",
+          },
+        ],
+        channelConfigs: [
+          { channel: "production", parentChannel: null, mode: "paused" },
+        ],
+      },
+    );
+
+    expect(update).toBeNull();
+  });
+
+  it("rolls back and reloads immediately with the force rollback policy", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: false,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: "00000000-0000-0000-0000-000000000002",
+        platform: "ios",
+      },
+      {
+        channelConfigs: [
+          {
+            channel: "production",
+            parentChannel: null,
+            rollbackPolicy: "force",
+          },
+        ],
+      },
+    );
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000001",
+      message: "hello",
+      shouldForceUpdate: true,
+      status: "ROLLBACK",
+    });
+  });
+
+  it("rolls back on the next launch with the next-launch rollback policy", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: false,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: "00000000-0000-0000-0000-000000000002",
+        platform: "ios",
+      },
+      {
+        channelConfigs: [
+          {
+            channel: "production",
+            parentChannel: null,
+            rollbackPolicy: "next-launch",
+          },
+        ],
+      },
+    );
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000001",
+      message: "hello",
+      shouldForceUpdate: false,
+      status: "ROLLBACK",
+    });
+  });
+
+  it("keeps the disabled bundle with the none rollback policy", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: false,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: "00000000-0000-0000-0000-000000000002",
+        platform: "ios",
+      },
+      {
+        channelConfigs: [
+          {
+            channel: "production",
+            parentChannel: null,
+            rollbackPolicy: "none",
+          },
+        ],
+      },
+    );
+
+    expect(update).toBeNull();
+  });
+
+  it("rolls back to the built-in bundle on the next launch with the next-launch rollback policy", async () => {
+    const bundles: Bundle[] = [];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: "00000000-0000-0000-0000-000000000002",
+        platform: "ios",
+      },
+      {
+        channelConfigs: [
+          {
+            channel: "production",
+            parentChannel: null,
+            rollbackPolicy: "next-launch",
+          },
+        ],
+      },
+    );
+
+    expect(update).toStrictEqual({
+      ...INIT_BUNDLE_ROLLBACK_UPDATE_INFO,
+      shouldForceUpdate: false,
+    });
+  });
+
+  it("keeps the deleted bundle with the none rollback policy", async () => {
+    const bundles: Bundle[] = [];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: "00000000-0000-0000-0000-000000000002",
+        platform: "ios",
+      },
+      {
+        channelConfigs: [
+          {
+            channel: "production",
+            parentChannel: null,
+            rollbackPolicy: "none",
+          },
+        ],
+      },
+    );
+
+    expect(update).toBeNull();
+  });
+
+  it("still serves updates with the none rollback policy", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: false,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000003",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: "00000000-0000-0000-0000-000000000002",
+        platform: "ios",
+      },
+      {
+        channelConfigs: [
+          {
+            channel: "production",
+            parentChannel: null,
+            rollbackPolicy: "none",
+          },
+        ],
+      },
+    );
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000003",
+      message: "hello",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+    });
+  });
+
+  it("inherits the rollback policy from the parent channel", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        channel: "app-acme",
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        channel: "app-acme",
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: false,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: "00000000-0000-0000-0000-000000000002",
+        platform: "ios",
+        channel: "app-acme",
+      },
+      {
+        channelConfigs: [
+          {
+            channel: "app-acme",
+            parentChannel: "production",
+            rollbackPolicy: null,
+          },
+          {
+            channel: "production",
+            parentChannel: null,
+            rollbackPolicy: "none",
+          },
+        ],
+      },
+    );
+
+    expect(update).toBeNull();
+  });
+
+  it("lists the messages of the skipped bundles when release notes are requested", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        message: "A",
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        message: "B",
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        message: "C",
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: false,
+        id: "00000000-0000-0000-0000-000000000003",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        message: "D",
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000004",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        message: "E",
+        platform: "android",
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000005",
+      },
+    ];
+
+    const update = await getUpdateInfo(bundles, {
+      appVersion: "1.0",
+      bundleId: "00000000-0000-0000-0000-000000000001",
+      platform: "ios",
+      includeReleaseNotes: true,
+    });
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000004",
+      message: "D",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+      releaseNotes: [
+        { id: "00000000-0000-0000-0000-000000000002", message: "B" },
+        { id: "00000000-0000-0000-0000-000000000004", message: "D" },
+      ],
+    });
+  });
+
+  it("lists every bundle up to the target when updating from the built-in bundle", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        message: "A",
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        message: "B",
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+    ];
+
+    const update = await getUpdateInfo(bundles, {
+      appVersion: "1.0",
+      bundleId: NIL_UUID,
+      platform: "ios",
+      includeReleaseNotes: true,
+    });
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000002",
+      message: "B",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+      releaseNotes: [
+        { id: "00000000-0000-0000-0000-000000000001", message: "A" },
+        { id: "00000000-0000-0000-0000-000000000002", message: "B" },
+      ],
+    });
+  });
+
+  it("omits release notes when they are not requested", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        message: "A",
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        message: "B",
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        message: "C",
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: false,
+        id: "00000000-0000-0000-0000-000000000003",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        message: "D",
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000004",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        message: "E",
+        platform: "android",
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000005",
+      },
+    ];
+
+    const update = await getUpdateInfo(bundles, {
+      appVersion: "1.0",
+      bundleId: "00000000-0000-0000-0000-000000000001",
+      platform: "ios",
+    });
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000004",
+      message: "D",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+    });
+  });
+
+  it("omits release notes on rollbacks", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        message: "A",
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000001",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        message: "B",
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: false,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+    ];
+
+    const update = await getUpdateInfo(bundles, {
+      appVersion: "1.0",
+      bundleId: "00000000-0000-0000-0000-000000000002",
+      platform: "ios",
+      includeReleaseNotes: true,
+    });
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000001",
+      message: "A",
+      shouldForceUpdate: true,
+      status: "ROLLBACK",
+    });
+  });
+
+  it("returns the metadata of the bundle to update to", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000002",
+        metadata: { minApiVersion: 3, features: { newCheckout: true } },
+      },
+    ];
+
+    const update = await getUpdateInfo(bundles, {
+      appVersion: "1.0",
+      bundleId: NIL_UUID,
+      platform: "ios",
+    });
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000002",
+      message: "hello",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+      metadata: { minApiVersion: 3, features: { newCheckout: true } },
+    });
+  });
+
+  it("returns the metadata of the bundle to roll back to", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000001",
+        metadata: { title: "Stable" },
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: false,
+        id: "00000000-0000-0000-0000-000000000002",
+        metadata: { title: "Broken" },
+      },
+    ];
+
+    const update = await getUpdateInfo(bundles, {
+      appVersion: "1.0",
+      bundleId: "00000000-0000-0000-0000-000000000002",
+      platform: "ios",
+    });
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000001",
+      message: "hello",
+      shouldForceUpdate: true,
+      status: "ROLLBACK",
+      metadata: { title: "Stable" },
+    });
+  });
+
+  it("returns the metadata of the bundle assigned by a device override", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: false,
+        id: "00000000-0000-0000-0000-000000000002",
+        metadata: { qa: true },
+      },
+    ];
+
+    const update = await getUpdateInfo(
+      bundles,
+      {
+        appVersion: "1.0",
+        bundleId: NIL_UUID,
+        platform: "ios",
+        deviceId: "qa-device",
+      },
+      {
+        deviceOverrides: [
+          {
+            deviceId: "qa-device",
+            channel: null,
+            bundleId: "00000000-0000-0000-0000-000000000002",
+          },
+        ],
+      },
+    );
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000002",
+      message: "hello",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+      metadata: { qa: true },
+    });
+  });
+
+  it("serves a promoted bundle under the id of its source bundle", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000001",
+        channel: "staging",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000003",
+        message: "promoted",
+        sourceBundleId: "00000000-0000-0000-0000-000000000001",
+      },
+    ];
+
+    const update = await getUpdateInfo(bundles, {
+      appVersion: "1.0",
+      bundleId: NIL_UUID,
+      platform: "ios",
+      includeReleaseNotes: true,
+    });
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000001",
+      message: "promoted",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+      releaseNotes: [
+        { id: "00000000-0000-0000-0000-000000000001", message: "promoted" },
+      ],
+    });
+  });
+
+  it("returns null for apps reporting the source id of the promoted bundle", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000002",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000003",
+        sourceBundleId: "00000000-0000-0000-0000-000000000001",
+      },
+    ];
+
+    const update = await getUpdateInfo(bundles, {
+      appVersion: "1.0",
+      bundleId: "00000000-0000-0000-0000-000000000001",
+      platform: "ios",
+    });
+
+    expect(update).toBeNull();
+  });
+
+  it("updates apps running a promoted bundle to a newer bundle", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000003",
+        sourceBundleId: "00000000-0000-0000-0000-000000000001",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000004",
+        message: "newer",
+      },
+    ];
+
+    const update = await getUpdateInfo(bundles, {
+      appVersion: "1.0",
+      bundleId: "00000000-0000-0000-0000-000000000001",
+      platform: "ios",
+    });
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000004",
+      message: "newer",
+      shouldForceUpdate: false,
+      status: "UPDATE",
+    });
+  });
+
+  it("rolls back apps running a disabled promoted bundle to the bundle before it", async () => {
+    const bundles: Bundle[] = [
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: true,
+        id: "00000000-0000-0000-0000-000000000002",
+        message: "previous",
+      },
+      {
+        ...DEFAULT_BUNDLE,
+        targetAppVersion: "*",
+        shouldForceUpdate: false,
+        enabled: false,
+        id: "00000000-0000-0000-0000-000000000003",
+        sourceBundleId: "00000000-0000-0000-0000-000000000001",
+      },
+    ];
+
+    const update = await getUpdateInfo(bundles, {
+      appVersion: "1.0",
+      bundleId: "00000000-0000-0000-0000-000000000001",
+      platform: "ios",
+    });
+
+    expect(update).toStrictEqual({
+      id: "00000000-0000-0000-0000-000000000002",
+      message: "previous",
+      shouldForceUpdate: true,
+      status: "ROLLBACK",
+    });
+  });
 };
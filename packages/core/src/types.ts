@@ -1,5 +1,11 @@
 export type Platform = "ios" | "android";
 
+/**
+ * Structured data attached to a bundle, e.g. feature flags or a minimum backend API version.
+ * Must be serializable as JSON.
+ */
+export type BundleMetadata = Record<string, unknown>;
+
 export interface Bundle {
   /**
    * The unique identifier for the bundle. uuidv7
@@ -45,6 +51,29 @@ export interface Bundle {
    * Different channel values can be used based on each app's requirements.
    */
   channel: string;
+  /**
+   * The percentage of devices (0-100) that should receive the bundle.
+   * Each device is placed in a deterministic bucket based on its device id,
+   * so raising the percentage only ever adds devices to the rollout.
+   *
+   * @default 100
+   */
+  rolloutPercentage?: number;
+  /**
+   * Hash of the native parts of the app (native dependencies, Podfile.lock, gradle files and app config)
+   * the bundle was built against. When set, only apps reporting the identical fingerprint receive the bundle.
+   */
+  fingerprintHash?: string | null;
+  /**
+   * Structured data delivered to the app with the update, e.g. `{ "minApiVersion": 3 }`.
+   */
+  metadata?: BundleMetadata | null;
+  /**
+   * The bundle this bundle was promoted from, see `hot-updater promote`.
+   * A promoted bundle serves the JS and storage object of its source bundle, so update info
+   * refers to it by the source id, which is the id apps running it report.
+   */
+  sourceBundleId?: string | null;
 }
 
 type SnakeCase<S extends string> = S extends `${infer T}${infer U}`
@@ -62,7 +91,124 @@ type SnakeKeyObject<T> = T extends Record<string, any>
 
 export type SnakeCaseBundle = SnakeKeyObject<Bundle>;
 
-export type UpdateStatus = "ROLLBACK" | "UPDATE";
+/**
+ * Assigns a device to a channel or to a specific bundle on the server,
+ * regardless of the channel the app reports.
+ */
+export interface DeviceOverride {
+  /**
+   * The device id reported by the app. See `HotUpdater.getDeviceId()`.
+   */
+  deviceId: string;
+  /**
+   * The channel the device should receive updates from.
+   */
+  channel: string | null;
+  /**
+   * The bundle the device should run.
+   * Takes precedence over `channel` as long as the bundle matches the platform and app version of the device.
+   */
+  bundleId: string | null;
+}
+
+export type SnakeCaseDeviceOverride = SnakeKeyObject<DeviceOverride>;
+
+/**
+ * - `normal`: bundles are served as usual
+ * - `paused`: no update is served
+ * - `revert-to-embedded`: every device goes back to the bundle built into the app
+ */
+export type ChannelMode = "normal" | "paused" | "revert-to-embedded";
+
+/**
+ * How devices leave a bundle that was disabled or deleted.
+ * - `force`: roll back and reload the app immediately
+ * - `next-launch`: roll back the next time the app is launched
+ * - `none`: keep running the current bundle
+ */
+export type RollbackPolicy = "force" | "next-launch" | "none";
+
+/**
+ * Server-side settings of a channel.
+ */
+export interface ChannelConfig {
+  channel: string;
+  /**
+   * The channel this channel inherits bundles from, e.g. `app-acme -> production`.
+   * Devices receive the newest eligible bundle across the channel and all of its ancestors.
+   */
+  parentChannel: string | null;
+  /**
+   * Kill switch for incidents. The closest channel in the chain that is not `normal` decides.
+   * @default "normal"
+   */
+  mode?: ChannelMode;
+  /**
+   * The closest channel in the chain that sets a policy decides.
+   * @default "force"
+   */
+  rollbackPolicy?: RollbackPolicy | null;
+}
+
+export type SnakeCaseChannelConfig = SnakeKeyObject<ChannelConfig>;
+
+/**
+ * Server-side settings of a channel for a single platform.
+ */
+export interface ChannelPlatformConfig {
+  channel: string;
+  platform: Platform;
+  /**
+   * The minimum native app version (semver) that still receives bundles.
+   * Older apps get the `NATIVE_UPDATE_REQUIRED` status and must be updated from the store.
+   */
+  minAppVersion: string | null;
+  /**
+   * The store page returned together with the `NATIVE_UPDATE_REQUIRED` status.
+   */
+  storeUrl: string | null;
+  /**
+   * The bundle served to the channel regardless of newer enabled bundles.
+   * Devices on a newer bundle roll back to it.
+   */
+  pinnedBundleId?: string | null;
+}
+
+export type SnakeCaseChannelPlatformConfig =
+  SnakeKeyObject<ChannelPlatformConfig>;
+
+/**
+ * Server-side configuration consulted while resolving an update, in addition to the bundles.
+ */
+export interface UpdateResolutionContext {
+  /**
+   * Device specific channel or bundle assignments.
+   */
+  deviceOverrides?: DeviceOverride[];
+  /**
+   * Channel settings such as the inheritance chain.
+   */
+  channelConfigs?: ChannelConfig[];
+  /**
+   * Channel settings per platform such as the minimum native app version.
+   */
+  channelPlatformConfigs?: ChannelPlatformConfig[];
+}
+
+/**
+ * - `UPDATE`: a newer bundle is available
+ * - `ROLLBACK`: the app should go back to an older bundle
+ * - `NATIVE_UPDATE_REQUIRED`: the native app is too old for any further bundle and must be updated from the store
+ */
+export type UpdateStatus = "ROLLBACK" | "UPDATE" | "NATIVE_UPDATE_REQUIRED";
+
+/**
+ * The message of a bundle the device receives, including the bundles it skips.
+ */
+export interface ReleaseNote {
+  id: string;
+  message: string | null;
+}
 
 /**
  * The update info for the database layer.
@@ -73,6 +219,19 @@ export interface UpdateInfo {
   shouldForceUpdate: boolean;
   message: string | null;
   status: UpdateStatus;
+  /**
+   * The store page of the app. Only set when `status` is `NATIVE_UPDATE_REQUIRED`.
+   */
+  storeUrl?: string | null;
+  /**
+   * Messages of every eligible bundle after the current one up to the target bundle, oldest first.
+   * Only set on updates when `includeReleaseNotes` is requested.
+   */
+  releaseNotes?: ReleaseNote[];
+  /**
+   * The `metadata` of the bundle. Only set when the bundle has metadata.
+   */
+  metadata?: BundleMetadata;
 }
 
 /**
@@ -112,4 +271,20 @@ export interface GetBundlesArgs {
    * - app-name: Channel for specific app instances (e.g., my-app, app-test)
    */
   channel?: string;
+  /**
+   * A stable identifier of the device.
+   * Used to decide whether the device is part of a percentage rollout.
+   * Devices without an identifier only receive fully rolled out bundles.
+   */
+  deviceId?: string;
+  /**
+   * The native fingerprint the app was built with.
+   * Bundles and apps only match when their fingerprints are identical.
+   */
+  fingerprintHash?: string;
+  /**
+   * Whether the response should list the messages of the bundles skipped by the update.
+   * @default false
+   */
+  includeReleaseNotes?: boolean;
 }
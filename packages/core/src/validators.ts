@@ -0,0 +1,12 @@
+import typia from "typia";
+import type { AppUpdateInfo, UpdateInfo } from "./types";
+
+/**
+ * Validates a value against `UpdateInfo`, listing every mismatching path on failure.
+ */
+export const validateUpdateInfo = typia.createValidate<UpdateInfo>();
+
+/**
+ * Validates a value against `AppUpdateInfo`, the body returned by update servers.
+ */
+export const validateAppUpdateInfo = typia.createValidate<AppUpdateInfo>();
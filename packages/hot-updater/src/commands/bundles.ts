@@ -0,0 +1,256 @@
+import * as p from "@clack/prompts";
+import type { Bundle } from "@hot-updater/core";
+import {
+  type ConfigResponse,
+  type DatabasePlugin,
+  type Platform,
+  getCwd,
+  loadConfig,
+} from "@hot-updater/plugin-core";
+
+import { formatTable } from "@/utils/formatTable";
+
+export interface ListBundlesOptions {
+  channel?: string;
+  platform?: Platform;
+  limit: number;
+  page: number;
+  json: boolean;
+}
+
+export interface ShowBundleOptions {
+  json: boolean;
+}
+
+export interface DeleteBundleOptions {
+  yes: boolean;
+}
+
+const MAX_MESSAGE_LENGTH = 40;
+
+const withDatabasePlugin = async (
+  fn: (databasePlugin: DatabasePlugin, config: ConfigResponse) => Promise<void>,
+) => {
+  const config = await loadConfig(null);
+  if (!config) {
+    console.error("No config found. Please run `hot-updater init` first.");
+    process.exit(1);
+  }
+
+  const databasePlugin = await config.database({ cwd: getCwd() });
+  try {
+    await fn(databasePlugin, config);
+  } catch (e) {
+    if (e instanceof Error) {
+      p.log.error(e.message);
+    }
+    process.exitCode = 1;
+  } finally {
+    await databasePlugin.onUnmount?.();
+  }
+};
+
+const findBundle = async (databasePlugin: DatabasePlugin, bundleId: string) => {
+  const bundle = await databasePlugin.getBundleById(bundleId);
+  if (!bundle) {
+    p.log.error(`${bundleId} does not exist`);
+    process.exitCode = 1;
+  }
+  return bundle;
+};
+
+// The first 48 bits of a uuidv7 are the creation time in milliseconds
+const getCreatedAt = (bundleId: string) =>
+  new Date(Number.parseInt(bundleId.replace(/-/g, "").slice(0, 12), 16));
+
+const truncate = (value: string) =>
+  value.length > MAX_MESSAGE_LENGTH
+    ? `${value.slice(0, MAX_MESSAGE_LENGTH - 1)}…`
+    : value;
+
+export const listBundles = (options: ListBundlesOptions) =>
+  withDatabasePlugin(async (databasePlugin) => {
+    const bundles = await databasePlugin.getBundles({
+      where: { channel: options.channel, platform: options.platform },
+      limit: options.limit,
+      offset: (options.page - 1) * options.limit,
+    });
+
+    if (options.json) {
+      console.log(JSON.stringify(bundles, null, 2));
+      return;
+    }
+
+    if (bundles.length === 0) {
+      p.log.info(
+        options.page > 1 ? `No bundles on page ${options.page}` : "No bundles",
+      );
+      return;
+    }
+
+    console.log(
+      formatTable(
+        [
+          "ID",
+          "CHANNEL",
+          "PLATFORM",
+          "TARGET APP VERSION",
+          "ENABLED",
+          "FORCE UPDATE",
+          "ROLLOUT",
+          "CREATED AT",
+          "MESSAGE",
+        ],
+        bundles.map((b) => [
+          b.id,
+          b.channel,
+          b.platform,
+          b.targetAppVersion,
+          b.enabled ? "yes" : "no",
+          b.shouldForceUpdate ? "yes" : "no",
+          `${b.rolloutPercentage ?? 100}%`,
+          getCreatedAt(b.id).toLocaleString(),
+          truncate(b.message ?? ""),
+        ]),
+      ),
+    );
+
+    if (bundles.length === options.limit) {
+      p.log.info(`More bundles on --page ${options.page + 1}`);
+    }
+  });
+
+export const showBundle = (bundleId: string, options: ShowBundleOptions) =>
+  withDatabasePlugin(async (databasePlugin) => {
+    const bundle = await findBundle(databasePlugin, bundleId);
+    if (!bundle) {
+      return;
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify(bundle, null, 2));
+      return;
+    }
+
+    const fields: [string, string][] = [
+      ["ID", bundle.id],
+      ["Channel", bundle.channel],
+      ["Platform", bundle.platform],
+      ["Target app version", bundle.targetAppVersion],
+      ["Enabled", bundle.enabled ? "yes" : "no"],
+      ["Force update", bundle.shouldForceUpdate ? "yes" : "no"],
+      ["Rollout", `${bundle.rolloutPercentage ?? 100}%`],
+      ["Created at", getCreatedAt(bundle.id).toLocaleString()],
+      ["Message", bundle.message ?? "-"],
+      ["File hash", bundle.fileHash],
+      ["Git commit hash", bundle.gitCommitHash ?? "-"],
+      ["Fingerprint", bundle.fingerprintHash ?? "-"],
+      ["Promoted from", bundle.sourceBundleId ?? "-"],
+      ["Metadata", bundle.metadata ? JSON.stringify(bundle.metadata) : "-"],
+    ];
+    console.log(formatTable(["FIELD", "VALUE"], fields));
+  });
+
+const updateBundle = (
+  bundleId: string,
+  newBundle: Partial<Bundle>,
+  successMessage: string,
+) =>
+  withDatabasePlugin(async (databasePlugin) => {
+    if (!(await findBundle(databasePlugin, bundleId))) {
+      return;
+    }
+
+    await databasePlugin.updateBundle(bundleId, newBundle);
+    await databasePlugin.commitBundle();
+
+    p.log.success(successMessage);
+  });
+
+export const setBundleEnabled = (bundleId: string, enabled: boolean) =>
+  updateBundle(
+    bundleId,
+    { enabled },
+    `${bundleId} ${enabled ? "enabled" : "disabled"}`,
+  );
+
+export const setBundleForceUpdate = (
+  bundleId: string,
+  shouldForceUpdate: boolean,
+) =>
+  updateBundle(
+    bundleId,
+    { shouldForceUpdate },
+    `${bundleId} ${shouldForceUpdate ? "forces" : "no longer forces"} the update`,
+  );
+
+export const setBundleMessage = (bundleId: string, message: string) =>
+  updateBundle(
+    bundleId,
+    { message: message || null },
+    message ? `${bundleId} message set` : `${bundleId} message cleared`,
+  );
+
+export const setBundleTargetAppVersion = (
+  bundleId: string,
+  targetAppVersion: string,
+) =>
+  updateBundle(
+    bundleId,
+    { targetAppVersion },
+    `${bundleId} targets app version ${targetAppVersion}`,
+  );
+
+/**
+ * Removes the uploaded bundle from storage and disables the bundle in the database,
+ * the same way the console deletes bundles. Database plugins cannot remove bundles.
+ */
+export const deleteBundle = (bundleId: string, options: DeleteBundleOptions) =>
+  withDatabasePlugin(async (databasePlugin, config) => {
+    const bundle = await findBundle(databasePlugin, bundleId);
+    if (!bundle) {
+      return;
+    }
+
+    // Promoted bundles serve the storage object of the bundle they were promoted from,
+    // disabled ones included since they can be enabled again
+    const promotedBundles = (await databasePlugin.getBundles()).filter(
+      (b) => b.sourceBundleId === bundle.id,
+    );
+    if (promotedBundles.length > 0) {
+      p.log.error(
+        `${bundle.id} is served by the promoted bundles ${promotedBundles
+          .map((b) => `${b.id} (${b.channel})`)
+          .join(", ")}`,
+      );
+      process.exitCode = 1;
+      return;
+    }
+
+    if (!options.yes) {
+      if (!process.stdin.isTTY) {
+        p.log.error("Pass --yes to delete without a terminal");
+        process.exitCode = 1;
+        return;
+      }
+
+      const confirmed = await p.confirm({
+        message: `Delete ${bundle.id} (${bundle.channel}, ${bundle.platform})?`,
+        initialValue: false,
+      });
+      if (p.isCancel(confirmed) || !confirmed) {
+        p.cancel("Delete cancelled");
+        return;
+      }
+    }
+
+    if (!bundle.sourceBundleId) {
+      const storagePlugin = await config.storage({ cwd: getCwd() });
+      await storagePlugin.deleteBundle(bundle.id);
+    }
+
+    await databasePlugin.updateBundle(bundle.id, { enabled: false });
+    await databasePlugin.commitBundle();
+
+    p.log.success(`${bundle.id} deleted`);
+  });
@@ -0,0 +1,57 @@
+import * as p from "@clack/prompts";
+import type { ChannelMode } from "@hot-updater/core";
+import { getCwd, loadConfig } from "@hot-updater/plugin-core";
+
+export const channelModes: ChannelMode[] = [
+  "normal",
+  "paused",
+  "revert-to-embedded",
+];
+
+export const setChannelMode = async (channel: string, mode: ChannelMode) => {
+  const config = await loadConfig(null);
+  if (!config) {
+    console.error("No config found. Please run `hot-updater init` first.");
+    process.exit(1);
+  }
+
+  const databasePlugin = await config.database({ cwd: getCwd() });
+  try {
+    if (!databasePlugin.getChannelConfigs || !databasePlugin.setChannelConfig) {
+      p.log.error(`${databasePlugin.name} does not support channel configs`);
+      process.exitCode = 1;
+      return;
+    }
+
+    // Keep the other settings so switching the mode does not break inheritance
+    const current = (await databasePlugin.getChannelConfigs()).find(
+      (c) => c.channel === channel,
+    );
+    await databasePlugin.setChannelConfig({
+      parentChannel: null,
+      ...current,
+      channel,
+      mode,
+    });
+
+    switch (mode) {
+      case "paused":
+        p.log.warn(`${channel}: paused, devices no longer receive bundles`);
+        break;
+      case "revert-to-embedded":
+        p.log.warn(
+          `${channel}: reverting devices to the bundle embedded in the app`,
+        );
+        break;
+      default:
+        p.log.success(`${channel}: serving bundles normally`);
+    }
+  } catch (e) {
+    if (e instanceof Error) {
+      p.log.error(e.message);
+    }
+    process.exitCode = 1;
+  } finally {
+    await databasePlugin.onUnmount?.();
+  }
+};
@@ -1,5 +1,4 @@
 import fs from "fs";
-import semverValid from "semver/ranges/valid";
 
 import open from "open";
 
@@ -7,11 +6,15 @@ import isPortReachable from "is-port-reachable";
 
 import * as p from "@clack/prompts";
 
-import { getDefaultTargetAppVersion } from "@/utils/getDefaultTargetAppVersion";
+import { createFingerprint, readNativeFingerprint } from "@/utils/fingerprint";
 import { getFileHashFromFile } from "@/utils/getFileHash";
 import { getLatestGitCommit } from "@/utils/git";
 import {
+  type BuildPlugin,
+  type ConfigResponse,
+  type DatabasePlugin,
   type Platform,
+  type StoragePlugin,
   createZipTargetFiles,
   getCwd,
   loadConfig,
@@ -23,136 +26,386 @@ import { getConsolePort, openConsole } from "./console";
 
 import path from "path";
 import { getBundleZipTargets } from "@/utils/getBundleZipTargets";
+import { getDefaultTargetAppVersion } from "@/utils/getDefaultTargetAppVersion";
+import { parseMetadata } from "@/utils/parseMetadata";
 import { printBanner } from "@/utils/printBanner";
+import semverValid from "semver/ranges/valid";
 
 export interface DeployOptions {
+  allowOutdatedFingerprint?: boolean;
   bundleOutputPath?: string;
   channel: string;
   forceUpdate: boolean;
   interactive: boolean;
+  json: boolean;
   message?: string;
-  platform?: Platform;
+  /**
+   * Inline JSON or the path to a JSON file.
+   */
+  metadata?: string;
+  /**
+   * `ios`, `android` or `all`, validated in the config phase.
+   */
+  platform?: string[];
   targetAppVersion?: string;
 }
 
-export const deploy = async (options: DeployOptions) => {
-  printBanner();
-
-  const cwd = getCwd();
+export type DeployPhase = "config" | "build" | "zip" | "upload" | "database";
+
+/**
+ * The exit code of `deploy` for each phase that can fail, so CI can tell the failures apart.
+ */
+export const DEPLOY_EXIT_CODES: Record<DeployPhase, number> = {
+  config: 2,
+  build: 3,
+  zip: 4,
+  upload: 5,
+  database: 6,
+};
 
-  const gitCommit = await getLatestGitCommit();
-  const [gitCommitHash, gitMessage] = [
-    gitCommit?.id() ?? null,
-    gitCommit?.summary() ?? null,
-  ];
+export interface DeployError {
+  phase: DeployPhase;
+  message: string;
+}
 
-  const platform =
-    options.platform ??
-    (options.interactive
-      ? await getPlatform("Which platform do you want to deploy?")
-      : null);
+/**
+ * The outcome of a single platform. Fields are `null` when the deploy stopped before reaching them.
+ */
+export interface DeployPlatformResult {
+  platform: Platform;
+  bundleId: string | null;
+  targetAppVersion: string;
+  fingerprintHash: string | null;
+  fileHash: string | null;
+  zipSize: number | null;
+  storage: { bucketName: string; key: string } | null;
+  error: DeployError | null;
+}
 
-  if (p.isCancel(platform)) {
-    return;
-  }
+/**
+ * The result printed by `deploy --json`. Durations are in milliseconds.
+ */
+export interface DeployResult {
+  status: "success" | "error";
+  channel: string;
+  /**
+   * The phase that stopped the deploy. No bundle is committed to the database when set.
+   */
+  error: DeployError | null;
+  platforms: DeployPlatformResult[];
+  warnings: string[];
+  durations: Partial<Record<DeployPhase, number>>;
+}
 
-  if (!platform) {
-    p.log.error(
-      "Platform not found. -p <ios | android> or --platform <ios | android>",
-    );
-    return;
+class DeployPhaseError extends Error {
+  constructor(
+    public readonly phase: DeployPhase,
+    message: string,
+  ) {
+    super(message);
+    this.name = "DeployPhaseError";
   }
+}
 
-  const channel = options.channel;
-
-  const config = await loadConfig({ platform, channel });
-  if (!config) {
-    console.error("No config found. Please run `hot-updater init` first.");
-    process.exit(1);
+const getErrorMessage = (e: unknown) =>
+  e instanceof Error ? e.message : String(e);
+
+// `all` expands to every platform and a platform given twice is deployed once
+const resolvePlatforms = (values: string[]) => {
+  const platforms = new Set<Platform>();
+  for (const value of values) {
+    if (value === "all") {
+      platforms.add("ios");
+      platforms.add("android");
+    } else if (value === "ios" || value === "android") {
+      platforms.add(value);
+    } else {
+      throw new Error(`${value} is not a platform (ios, android or all)`);
+    }
   }
+  return [...platforms];
+};
 
-  const defaultTargetAppVersion =
-    (await getDefaultTargetAppVersion(cwd, platform)) ?? "1.0.0";
-
-  const targetAppVersion =
-    options.targetAppVersion ??
-    (options.interactive
-      ? await p.text({
-          message: "Target app version",
-          placeholder: defaultTargetAppVersion,
-          initialValue: defaultTargetAppVersion,
-          validate: (value) => {
-            if (!semverValid(value)) {
-              return "Invalid semver format (e.g. 1.0.0, 1.x.x)";
-            }
-            return;
-          },
-        })
-      : null);
-
-  const outputPath = options.bundleOutputPath ?? cwd;
+interface PlatformDeployment {
+  result: DeployPlatformResult;
+  buildPlugin: BuildPlugin;
+  storagePlugin: StoragePlugin;
+  bundlePath: string;
+  buildPath?: string;
+}
 
-  if (p.isCancel(targetAppVersion)) {
-    return;
-  }
+export const deploy = async (options: DeployOptions) => {
+  const { json, channel } = options;
+  const durations: Partial<Record<DeployPhase, number>> = {};
+
+  // Times the phase and attributes its failures to it
+  const runPhase = async <T>(phase: DeployPhase, fn: () => Promise<T>) => {
+    const startedAt = performance.now();
+    try {
+      return await fn();
+    } catch (e) {
+      throw e instanceof DeployPhaseError
+        ? e
+        : new DeployPhaseError(phase, getErrorMessage(e));
+    } finally {
+      durations[phase] =
+        (durations[phase] ?? 0) + Math.round(performance.now() - startedAt);
+    }
+  };
+
+  // Spinners and logs are only shown to humans, `--json` prints a single result
+  const runTask = async <T>(
+    title: string,
+    phase: DeployPhase,
+    fn: () => Promise<T>,
+    completeMessage: string,
+  ) => {
+    if (json) {
+      return runPhase(phase, fn);
+    }
+    let result: T | undefined;
+    await p.tasks([
+      {
+        title,
+        task: async () => {
+          result = await runPhase(phase, fn);
+          return completeMessage;
+        },
+      },
+    ]);
+    return result as T;
+  };
+  const log = json ? null : p.log;
+  const warnings: string[] = [];
 
-  if (!targetAppVersion) {
-    p.log.error(
-      "Target app version not found. -t <targetAppVersion> semver format (e.g. 1.0.0, 1.x.x)",
-    );
-    return;
+  if (!json) {
+    printBanner();
   }
-  p.log.info(`Target app version: ${semverValid(targetAppVersion)}`);
-
-  let bundleId: string | null = null;
-  let fileHash: string;
 
+  const cwd = getCwd();
+  const outputPath = options.bundleOutputPath ?? cwd;
   const normalizeOutputPath = path.isAbsolute(outputPath)
     ? outputPath
     : path.join(cwd, outputPath);
 
-  const bundlePath = path.join(normalizeOutputPath, "bundle.zip");
-
-  const [buildPlugin, storagePlugin, databasePlugin] = await Promise.all([
-    config.build({
-      cwd,
-    }),
-    config.storage({
-      cwd,
-    }),
-    config.database({
-      cwd,
-    }),
-  ]);
+  let config: ConfigResponse | null = null;
+  let databasePlugin: DatabasePlugin | null = null;
+  let deployments: PlatformDeployment[] = [];
+  let error: DeployError | null = null;
+
+  // Runs the step for every platform in parallel, the phase fails if any platform fails
+  const runPlatforms = async (
+    phase: DeployPhase,
+    step: (deployment: PlatformDeployment) => Promise<void>,
+  ) => {
+    await Promise.all(
+      deployments.map(async (deployment) => {
+        try {
+          await step(deployment);
+        } catch (e) {
+          deployment.result.error = { phase, message: getErrorMessage(e) };
+        }
+      }),
+    );
+    const failed = deployments.filter((d) => d.result.error);
+    if (failed.length > 0) {
+      throw new DeployPhaseError(
+        phase,
+        failed
+          .map((d) => `${d.result.platform}: ${d.result.error?.message}`)
+          .join("\n"),
+      );
+    }
+  };
 
   try {
-    const taskRef: {
-      buildResult: {
-        buildPath: string;
-        bundleId: string;
-        stdout: string | null;
-      } | null;
-    } = {
-      buildResult: null,
-    };
+    const gitCommit = await getLatestGitCommit();
+    const [gitCommitHash, gitMessage] = [
+      gitCommit?.id() ?? null,
+      gitCommit?.summary() ?? null,
+    ];
+
+    // Never prompt without a terminal, CI would wait forever
+    const canPrompt = options.interactive && !json && process.stdin.isTTY;
+
+    const selectedPlatform =
+      options.platform ??
+      (canPrompt
+        ? await getPlatform("Which platform do you want to deploy?")
+        : null);
+
+    if (p.isCancel(selectedPlatform)) {
+      return;
+    }
+
+    const loaded = await runPhase("config", async () => {
+      const platforms = resolvePlatforms(
+        typeof selectedPlatform === "string"
+          ? [selectedPlatform]
+          : (selectedPlatform ?? []),
+      );
+      if (platforms.length === 0) {
+        throw new Error(
+          "Platform not found. -p <ios | android | all> or --platform <ios | android | all>",
+        );
+      }
+      if (options.targetAppVersion && !semverValid(options.targetAppVersion)) {
+        throw new Error("Invalid semver format (e.g. 1.0.0, 1.x.x)");
+      }
+      const metadata = options.metadata
+        ? parseMetadata(options.metadata, cwd)
+        : null;
+
+      // Configs may depend on the platform, so every platform uploads to its own storage
+      const platformConfigs = await Promise.all(
+        platforms.map(async (platform) => ({
+          platform,
+          config: await loadConfig({ platform, channel }),
+        })),
+      );
+      const primaryConfig = platformConfigs[0]?.config;
+      if (!primaryConfig) {
+        throw new Error(
+          "No config found. Please run `hot-updater init` first.",
+        );
+      }
 
-    p.log.info(`Channel: ${channel}`);
+      const deployments: PlatformDeployment[] = await Promise.all(
+        platformConfigs.map(async ({ platform, config }) => {
+          const fingerprintHash = await createFingerprint(cwd, platform);
+          const nativeFingerprintHash = await readNativeFingerprint(
+            cwd,
+            platform,
+          );
+          const isFingerprintOutdated =
+            nativeFingerprintHash !== fingerprintHash;
+          if (isFingerprintOutdated && !options.allowOutdatedFingerprint) {
+            throw new Error(
+              `${platform}: The fingerprint embedded in the native project is outdated. Run \`hot-updater fingerprint\` and rebuild the app, or pass --allow-outdated-fingerprint to deploy to the app version of the native project instead.`,
+            );
+          }
 
-    await p.tasks([
-      {
-        title: `📦 Building Bundle (${buildPlugin.name})`,
-        task: async () => {
-          taskRef.buildResult = await buildPlugin.build({
-            platform: platform,
+          // The fingerprint decides which native builds can run the bundle, so every app version matches by default.
+          // An outdated fingerprint may not describe the builds in the field, so the app version of the native project is required as well
+          const targetAppVersion =
+            options.targetAppVersion ??
+            (isFingerprintOutdated
+              ? await getDefaultTargetAppVersion(cwd, platform)
+              : "*");
+          if (!targetAppVersion) {
+            throw new Error(
+              `${platform}: The app version of the native project was not found. Pass --target-app-version`,
+            );
+          }
+          if (isFingerprintOutdated) {
+            warnings.push(
+              `${platform}: The fingerprint embedded in the native project is outdated, the bundle only reaches builds with fingerprint ${fingerprintHash} and app version ${targetAppVersion}`,
+            );
+          }
+
+          return {
+            result: {
+              platform,
+              bundleId: null,
+              targetAppVersion,
+              fingerprintHash,
+              fileHash: null,
+              zipSize: null,
+              storage: null,
+              error: null,
+            },
+            buildPlugin: await config.build({ cwd }),
+            storagePlugin: await config.storage({ cwd }),
+            bundlePath:
+              platforms.length > 1
+                ? path.join(normalizeOutputPath, platform, "bundle.zip")
+                : path.join(normalizeOutputPath, "bundle.zip"),
+          };
+        }),
+      );
+
+      // The bundles of every platform are committed at once, so they must share the database
+      const [databasePlugin, ...otherDatabasePlugins] = await Promise.all(
+        platformConfigs.map(({ config }) => config.database({ cwd })),
+      );
+      await Promise.all(otherDatabasePlugins.map((d) => d.onUnmount?.()));
+      if (
+        !databasePlugin ||
+        otherDatabasePlugins.some((d) => d.name !== databasePlugin.name)
+      ) {
+        await databasePlugin?.onUnmount?.();
+        throw new Error(
+          "Every platform must use the same database. Deploy the platforms one at a time instead.",
+        );
+      }
+
+      return {
+        config: primaryConfig,
+        deployments,
+        metadata,
+        databasePlugin,
+      };
+    });
+    config = loaded.config;
+    deployments = loaded.deployments;
+    databasePlugin = loaded.databasePlugin;
+    const loadedDatabasePlugin = loaded.databasePlugin;
+
+    for (const { result } of deployments) {
+      log?.info(`Fingerprint (${result.platform}): ${result.fingerprintHash}`);
+    }
+    for (const warning of warnings) {
+      log?.warn(warning);
+    }
+    for (const { result } of deployments) {
+      log?.info(
+        `Target app version (${result.platform}): ${result.targetAppVersion}`,
+      );
+    }
+    log?.info(`Channel: ${channel}`);
+
+    const platformNames = deployments.map((d) => d.result.platform).join(", ");
+    const buildPluginName = deployments[0]?.buildPlugin.name;
+    const storagePluginNames = [
+      ...new Set(deployments.map((d) => d.storagePlugin.name)),
+    ].join(", ");
+
+    await runTask(
+      `📦 Building Bundle (${buildPluginName}): ${platformNames}`,
+      "build",
+      () =>
+        runPlatforms("build", async (deployment) => {
+          const buildResult = await deployment.buildPlugin.build({
+            platform: deployment.result.platform,
             channel,
           });
+          if (!buildResult?.buildPath) {
+            throw new Error("Build result not found");
+          }
+          deployment.buildPath = buildResult.buildPath;
+          deployment.result.bundleId = buildResult.bundleId;
+          if (buildResult.stdout) {
+            log?.success(
+              `${deployment.result.platform}: ${buildResult.stdout}`,
+            );
+          }
+        }),
+      `✅ Build Complete (${buildPluginName}): ${platformNames}`,
+    );
 
-          await fs.promises.mkdir(normalizeOutputPath, { recursive: true });
-
-          const buildPath = taskRef.buildResult?.buildPath;
+    await runTask(
+      `📦 Compressing Bundle: ${platformNames}`,
+      "zip",
+      () =>
+        runPlatforms("zip", async (deployment) => {
+          const { buildPath, bundlePath } = deployment;
           if (!buildPath) {
             throw new Error("Build result not found");
           }
+          await fs.promises.mkdir(path.dirname(bundlePath), {
+            recursive: true,
+          });
+
           const files = await fs.promises.readdir(buildPath, {
             recursive: true,
           });
@@ -171,110 +424,167 @@ export const deploy = async (options: DeployOptions) => {
             targetFiles: targetFiles,
           });
 
-          bundleId = taskRef.buildResult.bundleId;
-          fileHash = await getFileHashFromFile(bundlePath);
-
-          return `✅ Build Complete (${buildPlugin.name})`;
-        },
-      },
-    ]);
-
-    if (taskRef.buildResult?.stdout) {
-      p.log.success(taskRef.buildResult.stdout);
-    }
+          deployment.result.fileHash = await getFileHashFromFile(bundlePath);
+          deployment.result.zipSize = (await fs.promises.stat(bundlePath)).size;
+        }),
+      `✅ Compression Complete: ${platformNames}`,
+    );
 
-    await p.tasks([
-      {
-        title: `📦 Uploading to Storage (${storagePlugin.name})`,
-        task: async () => {
+    await runTask(
+      `📦 Uploading to Storage (${storagePluginNames}): ${platformNames}`,
+      "upload",
+      () =>
+        runPlatforms("upload", async (deployment) => {
+          const { bundleId } = deployment.result;
           if (!bundleId) {
             throw new Error("Bundle ID not found");
           }
-
           try {
-            await storagePlugin.uploadBundle(bundleId, bundlePath);
+            deployment.result.storage =
+              await deployment.storagePlugin.uploadBundle(
+                bundleId,
+                deployment.bundlePath,
+              );
           } catch (e) {
-            if (e instanceof Error) {
-              p.log.error(e.message);
-            }
-            throw new Error("Failed to upload bundle to storage");
-          }
-          return `✅ Upload Complete (${storagePlugin.name})`;
-        },
-      },
-      {
-        title: `📦 Updating Database (${databasePlugin.name})`,
-        task: async () => {
-          if (!bundleId) {
-            throw new Error("Bundle ID not found");
+            throw new Error(
+              `Failed to upload bundle to storage: ${getErrorMessage(e)}`,
+            );
           }
+        }),
+      `✅ Upload Complete (${storagePluginNames}): ${platformNames}`,
+    );
 
-          try {
-            await databasePlugin.appendBundle({
+    await runTask(
+      `📦 Updating Database (${loadedDatabasePlugin.name})`,
+      "database",
+      async () => {
+        // Every platform is committed at once, so a failure never leaves one platform deployed
+        try {
+          for (const { result } of deployments) {
+            if (!result.bundleId || !result.fileHash) {
+              throw new Error("Bundle ID not found");
+            }
+            await loadedDatabasePlugin.appendBundle({
               shouldForceUpdate: options.forceUpdate,
-              platform,
-              fileHash,
+              platform: result.platform,
+              fileHash: result.fileHash,
               gitCommitHash,
               message: options?.message ?? gitMessage,
-              targetAppVersion,
-              id: bundleId,
+              targetAppVersion: result.targetAppVersion,
+              fingerprintHash: result.fingerprintHash,
+              metadata: loaded.metadata,
+              id: result.bundleId,
               enabled: true,
               channel,
             });
-            await databasePlugin.commitBundle();
-          } catch (e) {
-            if (e instanceof Error) {
-              p.log.error(e.message);
-            }
-            throw new Error("Failed to update database");
           }
-          await databasePlugin.onUnmount?.();
-          await fs.promises.rm(bundlePath);
-
-          return `✅ Update Complete (${databasePlugin.name})`;
-        },
+          await loadedDatabasePlugin.commitBundle();
+        } catch (e) {
+          for (const { result } of deployments) {
+            result.error = { phase: "database", message: getErrorMessage(e) };
+          }
+          throw new Error(`Failed to update database: ${getErrorMessage(e)}`);
+        }
       },
-    ]);
-    if (!bundleId) {
-      throw new Error("Bundle ID not found");
+      `✅ Update Complete (${loadedDatabasePlugin.name})`,
+    );
+  } catch (e) {
+    error = {
+      phase: e instanceof DeployPhaseError ? e.phase : "config",
+      message: getErrorMessage(e),
+    };
+    log?.error(`${error.message} (${error.phase})`);
+
+    // Nothing was committed, so the bundles that made it to storage are unreachable
+    await Promise.all(
+      deployments.map(async ({ result, storagePlugin }) => {
+        if (result.storage && result.bundleId) {
+          try {
+            await storagePlugin.deleteBundle(result.bundleId);
+            result.storage = null;
+          } catch {
+            // The orphaned bundle stays in storage, it is reported in the result
+          }
+        }
+      }),
+    );
+  } finally {
+    await databasePlugin?.onUnmount?.();
+    await Promise.all(
+      deployments.map(({ bundlePath }) =>
+        fs.promises.rm(bundlePath, { force: true }),
+      ),
+    );
+  }
+
+  const result: DeployResult = {
+    status: error ? "error" : "success",
+    channel,
+    error,
+    platforms: deployments.map((d) => d.result),
+    warnings,
+    durations,
+  };
+
+  if (json) {
+    console.log(JSON.stringify(result, null, 2));
+  } else {
+    for (const platformResult of result.platforms) {
+      if (platformResult.error) {
+        p.log.error(
+          `${platformResult.platform}: failed (${platformResult.error.phase})`,
+        );
+      } else if (!error) {
+        p.log.success(
+          `${platformResult.platform}: ${platformResult.bundleId} (${platformResult.zipSize} bytes)`,
+        );
+      }
     }
+  }
+  if (error) {
+    process.exit(DEPLOY_EXIT_CODES[error.phase]);
+  }
+  if (json || !config) {
+    return;
+  }
 
-    if (options.interactive) {
-      const port = await getConsolePort(config);
-      const isConsoleOpen = await isPortReachable(port, { host: "localhost" });
+  if (options.interactive && result.platforms.length > 0) {
+    const port = await getConsolePort(config);
+    const isConsoleOpen = await isPortReachable(port, { host: "localhost" });
 
+    // One console page per deployed bundle
+    const urls = result.platforms.map(({ platform, bundleId }) => {
       const openUrl = new URL(`http://localhost:${port}`);
       openUrl.searchParams.set("channel", channel);
       openUrl.searchParams.set("platform", platform);
-      openUrl.searchParams.set("bundleId", bundleId);
-
-      const url = openUrl.toString();
-
-      const note = `Console: ${url}`;
-      if (!isConsoleOpen) {
-        const result = await p.confirm({
-          message: "Console server is not running. Would you like to start it?",
-          initialValue: false,
-        });
-        if (!p.isCancel(result) && result) {
-          await openConsole(port, () => {
-            open(url);
-          });
-        }
-      } else {
+      if (bundleId) {
+        openUrl.searchParams.set("bundleId", bundleId);
+      }
+      return openUrl.toString();
+    });
+    const openUrls = () => {
+      for (const url of urls) {
         open(url);
       }
+    };
 
-      p.note(note);
+    const note = urls.map((url) => `Console: ${url}`).join("\n");
+    if (!isConsoleOpen) {
+      const confirmed = process.stdin.isTTY
+        ? await p.confirm({
+            message:
+              "Console server is not running. Would you like to start it?",
+            initialValue: false,
+          })
+        : false;
+      if (!p.isCancel(confirmed) && confirmed) {
+        await openConsole(port, openUrls);
+      }
+    } else {
+      openUrls();
     }
-    p.outro("🚀 Deployment Successful");
-  } catch (e) {
-    await databasePlugin.onUnmount?.();
-    await fs.promises.rm(bundlePath, { force: true });
-    console.error(e);
-    process.exit(1);
-  } finally {
-    await databasePlugin.onUnmount?.();
-    await fs.promises.rm(bundlePath, { force: true });
+
+    p.note(note);
   }
+  p.outro("🚀 Deployment Successful");
 };
@@ -0,0 +1,35 @@
+import path from "path";
+import { createFingerprint, writeNativeFingerprint } from "@/utils/fingerprint";
+import * as p from "@clack/prompts";
+import { type Platform, getCwd } from "@hot-updater/plugin-core";
+
+export interface FingerprintOptions {
+  platform?: Platform;
+}
+
+export const fingerprint = async (options: FingerprintOptions) => {
+  const cwd = getCwd();
+  const platforms: Platform[] = options.platform
+    ? [options.platform]
+    : ["ios", "android"];
+
+  for (const platform of platforms) {
+    const fingerprintHash = await createFingerprint(cwd, platform);
+    const writtenPaths = await writeNativeFingerprint(
+      cwd,
+      platform,
+      fingerprintHash,
+    );
+
+    if (writtenPaths.length === 0) {
+      p.log.warn(`${platform}: native project not found, skipped`);
+      continue;
+    }
+
+    p.log.info(`${platform}: ${fingerprintHash}`);
+    for (const writtenPath of writtenPaths) {
+      p.log.step(`Updated ${path.relative(cwd, writtenPath)}`);
+    }
+  }
+  p.log.success("Rebuild the native app to embed the fingerprint.");
+};
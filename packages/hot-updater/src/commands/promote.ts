@@ -0,0 +1,66 @@
+import * as p from "@clack/prompts";
+import type { Bundle } from "@hot-updater/core";
+import { getCwd, loadConfig } from "@hot-updater/plugin-core";
+import { uuidv7 } from "uuidv7";
+
+export interface PromoteOptions {
+  channel: string;
+  forceUpdate?: boolean;
+  message?: string;
+}
+
+/**
+ * Copies a bundle to another channel without rebuilding it.
+ *
+ * The copy gets a new uuidv7, so it is the newest bundle of the target channel,
+ * and keeps the file hash and storage object of the source bundle through `sourceBundleId`.
+ */
+export const promote = async (bundleId: string, options: PromoteOptions) => {
+  const { channel } = options;
+
+  const config = await loadConfig(null);
+  if (!config) {
+    console.error("No config found. Please run `hot-updater init` first.");
+    process.exit(1);
+  }
+
+  const databasePlugin = await config.database({ cwd: getCwd() });
+  try {
+    const source = await databasePlugin.getBundleById(bundleId);
+    if (!source) {
+      p.log.error(`${bundleId} does not exist`);
+      process.exitCode = 1;
+      return;
+    }
+    if (source.channel === channel) {
+      p.log.error(`${bundleId} is already a bundle of ${channel}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const promoted: Bundle = {
+      ...source,
+      id: uuidv7(),
+      channel,
+      enabled: true,
+      shouldForceUpdate: options.forceUpdate ?? source.shouldForceUpdate,
+      message: options.message ?? source.message,
+      // Promoting a promoted bundle still points at the bundle that was built
+      sourceBundleId: source.sourceBundleId ?? source.id,
+    };
+
+    await databasePlugin.appendBundle(promoted);
+    await databasePlugin.commitBundle();
+
+    p.log.success(
+      `Promoted ${source.id} (${source.channel}) to ${channel} as ${promoted.id}`,
+    );
+  } catch (e) {
+    if (e instanceof Error) {
+      p.log.error(e.message);
+    }
+    process.exitCode = 1;
+  } finally {
+    await databasePlugin.onUnmount?.();
+  }
+};
@@ -0,0 +1,127 @@
+import * as p from "@clack/prompts";
+import { type Bundle, NIL_UUID, type UpdateInfo } from "@hot-updater/core";
+import { semverSatisfies } from "@hot-updater/js";
+import { type Platform, getCwd, loadConfig } from "@hot-updater/plugin-core";
+import semverMinVersion from "semver/ranges/min-version";
+
+import { getDefaultTargetAppVersion } from "@/utils/getDefaultTargetAppVersion";
+import { getRollbackFallback } from "@/utils/getRollbackFallback";
+
+export interface RollbackOptions {
+  platform: Platform;
+  channel: string;
+  bundleId?: string;
+  yes: boolean;
+}
+
+const formatBundle = ({ id, message }: Pick<Bundle, "id" | "message">) =>
+  message ? `${id} (${message})` : id;
+
+const describeFallback = (updateInfo: UpdateInfo | null) => {
+  if (!updateInfo) {
+    return "Devices running it keep it";
+  }
+  switch (updateInfo.status) {
+    case "ROLLBACK":
+      return updateInfo.id === NIL_UUID
+        ? "Devices running it fall back to the bundle embedded in the app"
+        : `Devices running it roll back to ${formatBundle(updateInfo)}`;
+    case "UPDATE":
+      return `Devices running it update to ${formatBundle(updateInfo)}`;
+    case "NATIVE_UPDATE_REQUIRED":
+      return "Devices running it are asked to update the app from the store";
+  }
+};
+
+// The app version of the native project, unless devices running the bundle cannot have it
+const getAppVersion = async (cwd: string, bundle: Bundle) => {
+  const appVersion = await getDefaultTargetAppVersion(cwd, bundle.platform);
+  if (appVersion && semverSatisfies(bundle.targetAppVersion, appVersion)) {
+    return appVersion;
+  }
+  return semverMinVersion(bundle.targetAppVersion)?.version ?? "0.0.0";
+};
+
+export const rollback = async (options: RollbackOptions) => {
+  const { platform, channel } = options;
+
+  const config = await loadConfig({ platform, channel });
+  if (!config) {
+    console.error("No config found. Please run `hot-updater init` first.");
+    process.exit(1);
+  }
+
+  const cwd = getCwd();
+  const databasePlugin = await config.database({ cwd });
+  try {
+    // Bundles of parent channels are served to the channel too
+    const bundles = await databasePlugin.getBundles({ where: { platform } });
+    const channelBundles = bundles.filter((b) => b.channel === channel);
+
+    const bundle = options.bundleId
+      ? channelBundles.find((b) => b.id === options.bundleId)
+      : channelBundles
+          .filter((b) => b.enabled)
+          .reduce<Bundle | undefined>(
+            (latest, b) =>
+              !latest || b.id.localeCompare(latest.id) > 0 ? b : latest,
+            undefined,
+          );
+
+    if (!bundle) {
+      p.log.error(
+        options.bundleId
+          ? `${options.bundleId} is not a ${platform} bundle of ${channel}`
+          : `${channel} has no enabled ${platform} bundle`,
+      );
+      process.exitCode = 1;
+      return;
+    }
+    if (!bundle.enabled) {
+      p.log.warn(`${bundle.id} is already disabled`);
+      return;
+    }
+
+    const appVersion = await getAppVersion(cwd, bundle);
+    const [channelConfigs, channelPlatformConfigs] = await Promise.all([
+      databasePlugin.getChannelConfigs?.() ?? [],
+      databasePlugin.getChannelPlatformConfigs?.() ?? [],
+    ]);
+    const fallback = await getRollbackFallback(bundles, bundle, appVersion, {
+      channelConfigs,
+      channelPlatformConfigs,
+    });
+
+    p.log.info(`Disabling ${formatBundle(bundle)} (${channel}, ${platform})`);
+    p.log.info(`${describeFallback(fallback)} (app version ${appVersion})`);
+
+    if (!options.yes) {
+      if (!process.stdin.isTTY) {
+        p.log.error("Pass --yes to roll back without a terminal");
+        process.exitCode = 1;
+        return;
+      }
+
+      const confirmed = await p.confirm({
+        message: `Disable ${bundle.id}?`,
+        initialValue: false,
+      });
+      if (p.isCancel(confirmed) || !confirmed) {
+        p.cancel("Rollback cancelled");
+        return;
+      }
+    }
+
+    await databasePlugin.updateBundle(bundle.id, { enabled: false });
+    await databasePlugin.commitBundle();
+
+    p.log.success(`${bundle.id} disabled`);
+  } catch (e) {
+    if (e instanceof Error) {
+      p.log.error(e.message);
+    }
+    process.exitCode = 1;
+  } finally {
+    await databasePlugin.onUnmount?.();
+  }
+};
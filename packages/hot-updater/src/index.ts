@@ -1,18 +1,57 @@
 #!/usr/bin/env node
+import {
+  type DeleteBundleOptions,
+  type ListBundlesOptions,
+  type ShowBundleOptions,
+  deleteBundle,
+  listBundles,
+  setBundleEnabled,
+  setBundleForceUpdate,
+  setBundleMessage,
+  setBundleTargetAppVersion,
+  showBundle,
+} from "@/commands/bundles";
+import { channelModes, setChannelMode } from "@/commands/channel";
 import { getConsolePort, openConsole } from "@/commands/console";
 import { type DeployOptions, deploy } from "@/commands/deploy";
+import { type FingerprintOptions, fingerprint } from "@/commands/fingerprint";
 import { init } from "@/commands/init";
+import { type PromoteOptions, promote } from "@/commands/promote";
+import { type RollbackOptions, rollback } from "@/commands/rollback";
 import { version } from "@/packageJson";
 import { getDefaultTargetAppVersion } from "@/utils/getDefaultTargetAppVersion";
 import * as p from "@clack/prompts";
+import type { ChannelMode } from "@hot-updater/core";
 import { banner, getCwd, log } from "@hot-updater/plugin-core";
-import { Command, Option } from "commander";
+import { Argument, Command, Option } from "commander";
 import picocolors from "picocolors";
 import semverValid from "semver/ranges/valid";
 import { printBanner } from "./utils/printBanner";
 
 const DEFAULT_CHANNEL = "production";
 
+const parseSemver = (value: string) => {
+  if (!semverValid(value)) {
+    p.log.error("Invalid semver format (e.g. 1.0.0, 1.x.x)");
+    process.exit(1);
+  }
+  return value;
+};
+
+const collect = (value: string, previous: string[] = []) => [
+  ...previous,
+  value,
+];
+
+const parsePositiveInteger = (value: string) => {
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 1) {
+    p.log.error(`${value} is not a positive integer`);
+    process.exit(1);
+  }
+  return number;
+};
+
 const program = new Command();
 
 program
@@ -26,22 +65,16 @@ program
   .command("deploy")
   .description("deploy a new version")
   .addOption(
-    new Option("-p, --platform <platform>", "specify the platform").choices([
-      "ios",
-      "android",
-    ]),
+    new Option(
+      "-p, --platform <platform>",
+      "specify the platform: ios, android or all. Repeat it or pass all to build the platforms in parallel and commit their bundles together",
+    ).argParser(collect),
   )
   .addOption(
     new Option(
       "-t, --target-app-version <targetAppVersion>",
-      "specify the target app version (semver format e.g. 1.0.0, 1.x.x)",
-    ).argParser((value) => {
-      if (!semverValid(value)) {
-        p.log.error("Invalid semver format (e.g. 1.0.0, 1.x.x)");
-        process.exit(1);
-      }
-      return value;
-    }),
+      "restrict the bundle to app versions (semver format e.g. 1.0.0, 1.x.x). By default the bundle targets every app version with the same native fingerprint",
+    ),
   )
   .addOption(
     new Option("-f, --force-update", "force update the app").default(false),
@@ -53,6 +86,20 @@ program
     ),
   )
   .addOption(new Option("-i, --interactive", "interactive mode").default(false))
+  .addOption(
+    new Option(
+      "--allow-outdated-fingerprint",
+      "deploy even though the fingerprint embedded in the native project is outdated. The bundle then targets the app version of the native project unless -t is given",
+    ).default(false),
+  )
+  .addOption(
+    new Option(
+      "--json",
+      "print a single JSON result instead of progress output and never prompt. Exits with a distinct code per failed phase: 2 config, 3 build, 4 zip, 5 upload, 6 database",
+    )
+      .default(false)
+      .conflicts("interactive"),
+  )
   .addOption(
     new Option(
       "-c, --channel <channel>",
@@ -65,8 +112,212 @@ program
       "Specify a custom message for this deployment. If not provided, the latest git commit message will be used as the deployment message",
     ),
   )
+  .addOption(
+    new Option(
+      "--metadata <jsonOrFile>",
+      "attach custom JSON metadata to the bundle, inline or as the path to a JSON file. The app receives it from checkForUpdate",
+    ),
+  )
   .action(async (options: DeployOptions) => {
-    deploy(options);
+    await deploy(options);
+  });
+
+program
+  .command("fingerprint")
+  .description(
+    "compute the native fingerprint and embed it into the native projects",
+  )
+  .addOption(
+    new Option("-p, --platform <platform>", "specify the platform").choices([
+      "ios",
+      "android",
+    ]),
+  )
+  .action(async (options: FingerprintOptions) => {
+    await fingerprint(options);
+  });
+
+program
+  .command("rollback")
+  .description(
+    "disable the latest enabled bundle of a channel, or the given bundle, so devices fall back to the previous one",
+  )
+  .addOption(
+    new Option("-p, --platform <platform>", "specify the platform")
+      .choices(["ios", "android"])
+      .makeOptionMandatory(),
+  )
+  .addOption(
+    new Option(
+      "-c, --channel <channel>",
+      "specify the channel to roll back",
+    ).default(DEFAULT_CHANNEL),
+  )
+  .addOption(
+    new Option(
+      "-b, --bundle-id <bundleId>",
+      "disable this bundle instead of the latest enabled one",
+    ),
+  )
+  .addOption(
+    new Option("-y, --yes", "skip the confirmation prompt").default(false),
+  )
+  .action(async (options: RollbackOptions) => {
+    await rollback(options);
+  });
+
+program
+  .command("promote")
+  .description(
+    "copy a bundle to another channel, reusing its uploaded bundle instead of rebuilding it",
+  )
+  .argument("<bundleId>", "the bundle to promote")
+  .addOption(
+    new Option(
+      "-c, --channel <channel>",
+      "the channel to promote the bundle to",
+    ).makeOptionMandatory(),
+  )
+  .addOption(
+    new Option(
+      "-f, --force-update",
+      "force update the app. By default the setting of the promoted bundle is kept",
+    ),
+  )
+  .addOption(
+    new Option(
+      "--no-force-update",
+      "stop forcing the update of the promoted bundle",
+    ),
+  )
+  .addOption(
+    new Option(
+      "-m, --message <message>",
+      "replace the message of the promoted bundle",
+    ),
+  )
+  .action(async (bundleId: string, options: PromoteOptions) => {
+    await promote(bundleId, options);
+  });
+
+const bundlesCommand = program
+  .command("bundles")
+  .description("manage deployed bundles");
+
+bundlesCommand
+  .command("list")
+  .description("list bundles, newest first")
+  .addOption(new Option("-c, --channel <channel>", "filter by channel"))
+  .addOption(
+    new Option("-p, --platform <platform>", "filter by platform").choices([
+      "ios",
+      "android",
+    ]),
+  )
+  .addOption(
+    new Option("-l, --limit <limit>", "bundles per page")
+      .argParser(parsePositiveInteger)
+      .default(20),
+  )
+  .addOption(
+    new Option("--page <page>", "the page to list")
+      .argParser(parsePositiveInteger)
+      .default(1),
+  )
+  .addOption(new Option("--json", "print the bundles as JSON").default(false))
+  .action(async (options: ListBundlesOptions) => {
+    await listBundles(options);
+  });
+
+bundlesCommand
+  .command("show")
+  .description("show every field of a bundle")
+  .argument("<bundleId>", "the bundle to show")
+  .addOption(new Option("--json", "print the bundle as JSON").default(false))
+  .action(async (bundleId: string, options: ShowBundleOptions) => {
+    await showBundle(bundleId, options);
+  });
+
+bundlesCommand
+  .command("enable")
+  .description("serve a bundle to devices again")
+  .argument("<bundleId>", "the bundle to enable")
+  .action(async (bundleId: string) => {
+    await setBundleEnabled(bundleId, true);
+  });
+
+bundlesCommand
+  .command("disable")
+  .description(
+    "stop serving a bundle. Devices running it fall back to the previous bundle",
+  )
+  .argument("<bundleId>", "the bundle to disable")
+  .action(async (bundleId: string) => {
+    await setBundleEnabled(bundleId, false);
+  });
+
+bundlesCommand
+  .command("set-force")
+  .description("set whether the app reloads as soon as the bundle is installed")
+  .argument("<bundleId>", "the bundle to change")
+  .addArgument(
+    new Argument("<forceUpdate>", "force the update").choices([
+      "true",
+      "false",
+    ]),
+  )
+  .action(async (bundleId: string, forceUpdate: string) => {
+    await setBundleForceUpdate(bundleId, forceUpdate === "true");
+  });
+
+bundlesCommand
+  .command("set-message")
+  .description("replace the message of a bundle. An empty message clears it")
+  .argument("<bundleId>", "the bundle to change")
+  .argument("<message>", "the new message")
+  .action(async (bundleId: string, message: string) => {
+    await setBundleMessage(bundleId, message);
+  });
+
+bundlesCommand
+  .command("set-target-app-version")
+  .description("change the app versions a bundle is served to")
+  .argument("<bundleId>", "the bundle to change")
+  .argument(
+    "<targetAppVersion>",
+    "semver range of app versions (e.g. 1.0.0, 1.x.x)",
+    parseSemver,
+  )
+  .action(async (bundleId: string, targetAppVersion: string) => {
+    await setBundleTargetAppVersion(bundleId, targetAppVersion);
+  });
+
+bundlesCommand
+  .command("delete")
+  .description(
+    "delete the uploaded bundle from storage and disable the bundle in the database",
+  )
+  .argument("<bundleId>", "the bundle to delete")
+  .addOption(
+    new Option("-y, --yes", "skip the confirmation prompt").default(false),
+  )
+  .action(async (bundleId: string, options: DeleteBundleOptions) => {
+    await deleteBundle(bundleId, options);
+  });
+
+const channelCommand = program
+  .command("channel")
+  .description("manage channel settings");
+
+channelCommand
+  .command("mode")
+  .description(
+    "switch the kill switch of a channel: pause it or revert its devices to the embedded bundle",
+  )
+  .argument("<channel>", "the channel to switch")
+  .addArgument(new Argument("<mode>", "the channel mode").choices(channelModes))
+  .action(async (channel: string, mode: ChannelMode) => {
+    await setChannelMode(channel, mode);
   });
 
 program
@@ -0,0 +1,126 @@
+import os from "os";
+import path from "path";
+import fs from "fs/promises";
+import plist from "plist";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  FINGERPRINT_PLIST_KEY,
+  createFingerprint,
+  getNativeDependencies,
+  readNativeFingerprint,
+  writeNativeFingerprint,
+} from "./fingerprint";
+
+const writeFile = async (cwd: string, file: string, content: string) => {
+  await fs.mkdir(path.dirname(path.join(cwd, file)), { recursive: true });
+  await fs.writeFile(path.join(cwd, file), content);
+};
+
+describe("fingerprint", () => {
+  let cwd: string;
+
+  beforeEach(async () => {
+    cwd = await fs.mkdtemp(path.join(os.tmpdir(), "hot-updater-fingerprint-"));
+    await writeFile(
+      cwd,
+      "package.json",
+      JSON.stringify({
+        dependencies: { "native-lib": "^1.0.0", "js-lib": "^1.0.0" },
+      }),
+    );
+    await writeFile(
+      cwd,
+      "node_modules/native-lib/package.json",
+      JSON.stringify({ version: "1.2.3" }),
+    );
+    await writeFile(cwd, "node_modules/native-lib/native-lib.podspec", "");
+    await writeFile(cwd, "node_modules/native-lib/android/build.gradle", "");
+    await writeFile(
+      cwd,
+      "node_modules/js-lib/package.json",
+      JSON.stringify({ version: "2.0.0" }),
+    );
+    await writeFile(cwd, "ios/Podfile.lock", "PODS:\n  - native-lib (1.2.3)\n");
+    await writeFile(cwd, "android/app/build.gradle", 'versionName "1.0"\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(cwd, { recursive: true, force: true });
+  });
+
+  it("should only list dependencies with native code", async () => {
+    expect(await getNativeDependencies(cwd, "ios")).toEqual([
+      "native-lib@1.2.3",
+    ]);
+    expect(await getNativeDependencies(cwd, "android")).toEqual([
+      "native-lib@1.2.3",
+    ]);
+  });
+
+  it("should be stable until a native source changes", async () => {
+    const iosFingerprint = await createFingerprint(cwd, "ios");
+    const androidFingerprint = await createFingerprint(cwd, "android");
+
+    expect(await createFingerprint(cwd, "ios")).toBe(iosFingerprint);
+    expect(iosFingerprint).not.toBe(androidFingerprint);
+
+    await writeFile(cwd, "ios/Podfile.lock", "PODS:\n  - native-lib (1.3.0)\n");
+
+    expect(await createFingerprint(cwd, "ios")).not.toBe(iosFingerprint);
+    expect(await createFingerprint(cwd, "android")).toBe(androidFingerprint);
+  });
+
+  it("should change when a native dependency is upgraded", async () => {
+    const fingerprint = await createFingerprint(cwd, "android");
+
+    await writeFile(
+      cwd,
+      "node_modules/native-lib/package.json",
+      JSON.stringify({ version: "1.3.0" }),
+    );
+
+    expect(await createFingerprint(cwd, "android")).not.toBe(fingerprint);
+  });
+
+  it("should embed the fingerprint into Info.plist", async () => {
+    await writeFile(
+      cwd,
+      "ios/App/Info.plist",
+      plist.build({ CFBundleShortVersionString: "1.0" }),
+    );
+
+    await writeNativeFingerprint(cwd, "ios", "hash-1");
+    await writeNativeFingerprint(cwd, "ios", "hash-2");
+
+    const data = plist.parse(
+      await fs.readFile(path.join(cwd, "ios/App/Info.plist"), "utf8"),
+    ) as Record<string, any>;
+    expect(data).toEqual({
+      CFBundleShortVersionString: "1.0",
+      [FINGERPRINT_PLIST_KEY]: "hash-2",
+    });
+    expect(await readNativeFingerprint(cwd, "ios")).toBe("hash-2");
+  });
+
+  it("should embed the fingerprint into strings.xml", async () => {
+    const stringsXmlPath = "android/app/src/main/res/values/strings.xml";
+    await writeFile(
+      cwd,
+      stringsXmlPath,
+      '<resources>\n    <string name="app_name">App</string>\n</resources>\n',
+    );
+
+    await writeNativeFingerprint(cwd, "android", "hash-1");
+    await writeNativeFingerprint(cwd, "android", "hash-2");
+
+    expect(await fs.readFile(path.join(cwd, stringsXmlPath), "utf8")).toBe(
+      '<resources>\n    <string name="app_name">App</string>\n    <string name="hot_updater_fingerprint_hash" translatable="false">hash-2</string>\n</resources>\n',
+    );
+    expect(await readNativeFingerprint(cwd, "android")).toBe("hash-2");
+  });
+
+  it("should return null when the native project has no fingerprint", async () => {
+    expect(await readNativeFingerprint(cwd, "ios")).toBeNull();
+    expect(await readNativeFingerprint(cwd, "android")).toBeNull();
+  });
+});
@@ -0,0 +1,226 @@
+import crypto from "crypto";
+import path from "path";
+import type { Platform } from "@hot-updater/plugin-core";
+import fs from "fs/promises";
+import plist from "plist";
+
+export const FINGERPRINT_PLIST_KEY = "HOT_UPDATER_FINGERPRINT_HASH";
+export const FINGERPRINT_STRING_RESOURCE = "hot_updater_fingerprint_hash";
+
+// Files that change whenever the native side of the app changes
+const NATIVE_SOURCE_FILES: Record<Platform, string[]> = {
+  ios: ["ios/Podfile", "ios/Podfile.lock"],
+  android: [
+    "android/build.gradle",
+    "android/build.gradle.kts",
+    "android/settings.gradle",
+    "android/settings.gradle.kts",
+    "android/gradle.properties",
+    "android/gradle/wrapper/gradle-wrapper.properties",
+    "android/app/build.gradle",
+    "android/app/build.gradle.kts",
+  ],
+};
+
+const APP_CONFIG_FILES = ["app.json", "react-native.config.js"];
+
+const readFileOrNull = async (filepath: string) => {
+  try {
+    return await fs.readFile(filepath, "utf8");
+  } catch {
+    return null;
+  }
+};
+
+const exists = async (filepath: string) => {
+  try {
+    await fs.access(filepath);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const hasNativeCode = async (packagePath: string, platform: Platform) => {
+  switch (platform) {
+    case "ios": {
+      for (const dir of [packagePath, path.join(packagePath, "ios")]) {
+        const files = await fs.readdir(dir).catch(() => []);
+        if (files.some((file) => file.endsWith(".podspec"))) {
+          return true;
+        }
+      }
+      return false;
+    }
+    case "android":
+      return exists(path.join(packagePath, "android"));
+  }
+};
+
+/**
+ * Lists the installed dependencies that ship native code for the platform as `name@version`.
+ */
+export const getNativeDependencies = async (
+  cwd: string,
+  platform: Platform,
+): Promise<string[]> => {
+  const packageJson = await readFileOrNull(path.join(cwd, "package.json"));
+  if (!packageJson) {
+    return [];
+  }
+
+  const { dependencies = {} } = JSON.parse(packageJson) as {
+    dependencies?: Record<string, string>;
+  };
+
+  const nativeDependencies: string[] = [];
+  for (const name of Object.keys(dependencies).sort()) {
+    const packagePath = path.join(cwd, "node_modules", name);
+    const dependencyPackageJson = await readFileOrNull(
+      path.join(packagePath, "package.json"),
+    );
+    if (!dependencyPackageJson) {
+      continue;
+    }
+    if (await hasNativeCode(packagePath, platform)) {
+      const { version } = JSON.parse(dependencyPackageJson) as {
+        version: string;
+      };
+      nativeDependencies.push(`${name}@${version}`);
+    }
+  }
+  return nativeDependencies;
+};
+
+/**
+ * Computes a hash of everything that requires a new native build when it changes:
+ * native dependencies, Podfile.lock, gradle files and the app config.
+ * A bundle built with one fingerprint can run on any native build with the same fingerprint.
+ */
+export const createFingerprint = async (
+  cwd: string,
+  platform: Platform,
+): Promise<string> => {
+  const hash = crypto.createHash("sha256");
+
+  hash.update(`platform:${platform}\n`);
+  for (const dependency of await getNativeDependencies(cwd, platform)) {
+    hash.update(`dependency:${dependency}\n`);
+  }
+
+  for (const file of [...NATIVE_SOURCE_FILES[platform], ...APP_CONFIG_FILES]) {
+    const content = await readFileOrNull(path.join(cwd, file));
+    if (content === null) {
+      continue;
+    }
+    const fileHash = crypto.createHash("sha256").update(content).digest("hex");
+    hash.update(`file:${file}:${fileHash}\n`);
+  }
+
+  return hash.digest("hex");
+};
+
+const findInfoPlistPaths = async (cwd: string) => {
+  const iosPath = path.join(cwd, "ios");
+  const entries = await fs
+    .readdir(iosPath, { withFileTypes: true })
+    .catch(() => []);
+
+  const plistPaths: string[] = [];
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name === "Pods") {
+      continue;
+    }
+    const plistPath = path.join(iosPath, entry.name, "Info.plist");
+    if (await exists(plistPath)) {
+      plistPaths.push(plistPath);
+    }
+  }
+  return plistPaths;
+};
+
+const readPlist = async (plistPath: string) => {
+  const file = await fs.readFile(plistPath, "utf8");
+  return plist.parse(file) as Record<string, any>;
+};
+
+const getStringsXmlPath = (cwd: string) =>
+  path.join(
+    cwd,
+    "android",
+    "app",
+    "src",
+    "main",
+    "res",
+    "values",
+    "strings.xml",
+  );
+
+const STRING_RESOURCE_REGEX = new RegExp(
+  `<string name="${FINGERPRINT_STRING_RESOURCE}"[^>]*>([^<]*)</string>`,
+);
+
+/**
+ * Reads the fingerprint embedded in the native project by `writeNativeFingerprint`.
+ */
+export const readNativeFingerprint = async (
+  cwd: string,
+  platform: Platform,
+): Promise<string | null> => {
+  switch (platform) {
+    case "ios": {
+      const [plistPath] = await findInfoPlistPaths(cwd);
+      if (!plistPath) {
+        return null;
+      }
+      const data = await readPlist(plistPath);
+      return data[FINGERPRINT_PLIST_KEY] ?? null;
+    }
+    case "android": {
+      const stringsXml = await readFileOrNull(getStringsXmlPath(cwd));
+      return stringsXml?.match(STRING_RESOURCE_REGEX)?.[1] ?? null;
+    }
+  }
+};
+
+/**
+ * Embeds the fingerprint into the native project so the app reports it to the update server.
+ * iOS stores it in Info.plist and Android in res/values/strings.xml.
+ *
+ * @returns The paths of the files that were written.
+ */
+export const writeNativeFingerprint = async (
+  cwd: string,
+  platform: Platform,
+  fingerprintHash: string,
+): Promise<string[]> => {
+  switch (platform) {
+    case "ios": {
+      const plistPaths = await findInfoPlistPaths(cwd);
+      for (const plistPath of plistPaths) {
+        const data = await readPlist(plistPath);
+        data[FINGERPRINT_PLIST_KEY] = fingerprintHash;
+        await fs.writeFile(plistPath, plist.build(data));
+      }
+      return plistPaths;
+    }
+    case "android": {
+      const stringsXmlPath = getStringsXmlPath(cwd);
+      if (!(await exists(path.join(cwd, "android")))) {
+        return [];
+      }
+
+      const resource = `<string name="${FINGERPRINT_STRING_RESOURCE}" translatable="false">${fingerprintHash}</string>`;
+      const stringsXml =
+        (await readFileOrNull(stringsXmlPath)) ?? "<resources>\n</resources>\n";
+
+      const nextStringsXml = STRING_RESOURCE_REGEX.test(stringsXml)
+        ? stringsXml.replace(STRING_RESOURCE_REGEX, resource)
+        : stringsXml.replace("</resources>", `    ${resource}\n</resources>`);
+
+      await fs.mkdir(path.dirname(stringsXmlPath), { recursive: true });
+      await fs.writeFile(stringsXmlPath, nextStringsXml);
+      return [stringsXmlPath];
+    }
+  }
+};
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { formatTable } from "./formatTable";
+
+describe("formatTable", () => {
+  it("should pad every column to its widest cell", () => {
+    expect(
+      formatTable(
+        ["ID", "CHANNEL", "MESSAGE"],
+        [
+          ["1", "production", "fix crash"],
+          ["22", "beta", ""],
+        ],
+      ),
+    ).toBe(
+      ["ID  CHANNEL     MESSAGE", "1   production  fix crash", "22  beta"].join(
+        "\n",
+      ),
+    );
+  });
+
+  it("should only print the header without rows", () => {
+    expect(formatTable(["ID", "CHANNEL"], [])).toBe("ID  CHANNEL");
+  });
+});
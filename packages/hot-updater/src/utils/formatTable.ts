@@ -0,0 +1,16 @@
+/**
+ * Formats rows as a plain text table with a header line, padding every column to its widest cell.
+ */
+export const formatTable = (headers: string[], rows: string[][]) => {
+  const widths = headers.map((header, i) =>
+    Math.max(header.length, ...rows.map((row) => (row[i] ?? "").length)),
+  );
+  return [headers, ...rows]
+    .map((row) =>
+      widths
+        .map((width, i) => (row[i] ?? "").padEnd(width))
+        .join("  ")
+        .trimEnd(),
+    )
+    .join("\n");
+};
@@ -0,0 +1,83 @@
+import { type Bundle, NIL_UUID } from "@hot-updater/core";
+import { describe, expect, it } from "vitest";
+import { getRollbackFallback } from "./getRollbackFallback";
+
+const createBundle = (overrides: Partial<Bundle>): Bundle => ({
+  id: "00000000-0000-0000-0000-000000000001",
+  platform: "ios",
+  targetAppVersion: "*",
+  shouldForceUpdate: false,
+  enabled: true,
+  fileHash: "hash",
+  gitCommitHash: null,
+  message: null,
+  channel: "production",
+  ...overrides,
+});
+
+describe("getRollbackFallback", () => {
+  it("should fall back to the previous enabled bundle", async () => {
+    const previous = createBundle({
+      id: "00000000-0000-0000-0000-000000000001",
+      message: "previous",
+    });
+    const disabled = createBundle({
+      id: "00000000-0000-0000-0000-000000000002",
+      enabled: false,
+    });
+    const latest = createBundle({ id: "00000000-0000-0000-0000-000000000003" });
+
+    expect(
+      await getRollbackFallback([latest, disabled, previous], latest, "1.0.0"),
+    ).toEqual({
+      id: previous.id,
+      message: "previous",
+      shouldForceUpdate: true,
+      status: "ROLLBACK",
+    });
+  });
+
+  it("should fall back to the embedded bundle without another enabled bundle", async () => {
+    const latest = createBundle({ id: "00000000-0000-0000-0000-000000000003" });
+
+    expect(await getRollbackFallback([latest], latest, "1.0.0")).toEqual({
+      id: NIL_UUID,
+      message: null,
+      shouldForceUpdate: true,
+      status: "ROLLBACK",
+    });
+  });
+
+  it("should only consider bundles of the same fingerprint and channel", async () => {
+    const otherFingerprint = createBundle({
+      id: "00000000-0000-0000-0000-000000000001",
+      fingerprintHash: "other",
+    });
+    const otherChannel = createBundle({
+      id: "00000000-0000-0000-0000-000000000002",
+      fingerprintHash: "fingerprint",
+      channel: "beta",
+    });
+    const latest = createBundle({
+      id: "00000000-0000-0000-0000-000000000003",
+      fingerprintHash: "fingerprint",
+    });
+
+    expect(
+      await getRollbackFallback(
+        [latest, otherChannel, otherFingerprint],
+        latest,
+        "1.0.0",
+      ),
+    ).toMatchObject({ id: NIL_UUID, status: "ROLLBACK" });
+  });
+
+  it("should update devices of an older bundle to the latest one", async () => {
+    const older = createBundle({ id: "00000000-0000-0000-0000-000000000001" });
+    const latest = createBundle({ id: "00000000-0000-0000-0000-000000000002" });
+
+    expect(
+      await getRollbackFallback([latest, older], older, "1.0.0"),
+    ).toMatchObject({ id: latest.id, status: "UPDATE" });
+  });
+});
@@ -0,0 +1,28 @@
+import type {
+  Bundle,
+  UpdateInfo,
+  UpdateResolutionContext,
+} from "@hot-updater/core";
+import { getUpdateInfo } from "@hot-updater/js";
+
+/**
+ * Resolves what the update server serves to devices running `bundle` once it is disabled.
+ * Returns `null` when the devices keep the bundle they run.
+ */
+export const getRollbackFallback = (
+  bundles: Bundle[],
+  bundle: Bundle,
+  appVersion: string,
+  context: UpdateResolutionContext = {},
+): Promise<UpdateInfo | null> =>
+  getUpdateInfo(
+    bundles.map((b) => (b.id === bundle.id ? { ...b, enabled: false } : b)),
+    {
+      platform: bundle.platform,
+      bundleId: bundle.id,
+      appVersion,
+      channel: bundle.channel,
+      fingerprintHash: bundle.fingerprintHash ?? undefined,
+    },
+    context,
+  );
@@ -0,0 +1,50 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { parseMetadata } from "./parseMetadata";
+
+describe("parseMetadata", () => {
+  let tmpDir: string;
+
+  beforeEach(async () => {
+    tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "metadata-"));
+  });
+
+  afterEach(async () => {
+    await fs.promises.rm(tmpDir, { recursive: true, force: true });
+  });
+
+  it("should parse inline JSON", () => {
+    expect(parseMetadata('{"ticket":"APP-1","hotfix":true}', tmpDir)).toEqual({
+      ticket: "APP-1",
+      hotfix: true,
+    });
+  });
+
+  it("should read a JSON file relative to the cwd", async () => {
+    await fs.promises.writeFile(
+      path.join(tmpDir, "metadata.json"),
+      JSON.stringify({ releaseUrl: "https://example.com/releases/1" }),
+    );
+
+    expect(parseMetadata("metadata.json", tmpDir)).toEqual({
+      releaseUrl: "https://example.com/releases/1",
+    });
+  });
+
+  it("should throw on invalid JSON", () => {
+    expect(() => parseMetadata("{ticket", tmpDir)).toThrow(
+      "Invalid metadata JSON: {ticket",
+    );
+  });
+
+  it("should throw when the JSON is not an object", () => {
+    expect(() => parseMetadata("[1, 2]", tmpDir)).toThrow(
+      "Metadata must be a JSON object",
+    );
+    expect(() => parseMetadata("null", tmpDir)).toThrow(
+      "Metadata must be a JSON object",
+    );
+  });
+});
@@ -0,0 +1,29 @@
+import fs from "fs";
+import path from "path";
+import type { BundleMetadata } from "@hot-updater/core";
+
+/**
+ * Parses the `--metadata` value, either inline JSON or the path to a JSON file.
+ */
+export function parseMetadata(value: string, cwd: string): BundleMetadata {
+  const filePath = path.resolve(cwd, value);
+  const json = fs.existsSync(filePath)
+    ? fs.readFileSync(filePath, "utf-8")
+    : value;
+
+  let metadata: unknown;
+  try {
+    metadata = JSON.parse(json);
+  } catch {
+    throw new Error(`Invalid metadata JSON: ${value}`);
+  }
+
+  if (
+    typeof metadata !== "object" ||
+    metadata === null ||
+    Array.isArray(metadata)
+  ) {
+    throw new Error("Metadata must be a JSON object");
+  }
+  return metadata as BundleMetadata;
+}
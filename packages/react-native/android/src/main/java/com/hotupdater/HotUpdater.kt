@@ -4,6 +4,7 @@ import android.app.Activity
 import android.content.Context
 import android.os.Handler
 import android.os.Looper
+import android.provider.Settings
 import android.util.Log
 import android.view.View
 import com.facebook.react.ReactApplication
@@ -139,6 +140,28 @@ class HotUpdater : ReactPackage {
             return updaterPrefs.getItem("HotUpdaterChannel")
         }
 
+        fun getDeviceId(context: Context): String? =
+            try {
+                // ANDROID_ID stays the same across app updates for the same signing key, user and device.
+                Settings.Secure.getString(context.contentResolver, Settings.Secure.ANDROID_ID)
+            } catch (e: Exception) {
+                null
+            }
+
+        fun getFingerprintHash(context: Context): String? {
+            // Written into res/values/strings.xml by `hot-updater fingerprint`.
+            val id =
+                context.resources.getIdentifier(
+                    "hot_updater_fingerprint_hash",
+                    "string",
+                    context.packageName,
+                )
+            if (id == 0) {
+                return null
+            }
+            return context.getString(id).takeIf { it.isNotEmpty() }
+        }
+
         suspend fun updateBundle(
             context: Context,
             bundleId: String,
@@ -82,6 +82,8 @@ class HotUpdaterModule internal constructor(
         constants["MIN_BUNDLE_ID"] = HotUpdater.getMinBundleId()
         constants["APP_VERSION"] = HotUpdater.getAppVersion(mReactApplicationContext)
         constants["CHANNEL"] = HotUpdater.getChannel(mReactApplicationContext)
+        constants["DEVICE_ID"] = HotUpdater.getDeviceId(mReactApplicationContext)
+        constants["FINGERPRINT_HASH"] = HotUpdater.getFingerprintHash(mReactApplicationContext)
         return constants
     }
 
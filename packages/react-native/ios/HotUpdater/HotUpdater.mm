@@ -3,6 +3,7 @@
 #import <React/RCTReloadCommand.h>
 #import <SSZipArchive/SSZipArchive.h>
 #import <Foundation/NSURLSession.h>
+#import <UIKit/UIKit.h>
 
 @implementation HotUpdater {
     bool hasListeners;
@@ -86,11 +87,23 @@ RCT_EXPORT_MODULE();
     return appVersion;
 }
 
+- (NSString *)getDeviceId {
+    // identifierForVendor stays the same across app updates until every app from the vendor is removed.
+    return [[[UIDevice currentDevice] identifierForVendor] UUIDString];
+}
+
+- (NSString *)getFingerprintHash {
+    // Written into Info.plist by `hot-updater fingerprint`.
+    return [[NSBundle mainBundle] objectForInfoDictionaryKey:@"HOT_UPDATER_FINGERPRINT_HASH"];
+}
+
 - (NSDictionary *)constantsToExport {
     return @{ 
         @"MIN_BUNDLE_ID": [self getMinBundleId] ?: [NSNull null],
         @"APP_VERSION": [self getAppVersion] ?: [NSNull null],
-        @"CHANNEL": [self getChannel] ?: [NSNull null]
+        @"CHANNEL": [self getChannel] ?: [NSNull null],
+        @"DEVICE_ID": [self getDeviceId] ?: [NSNull null],
+        @"FINGERPRINT_HASH": [self getFingerprintHash] ?: [NSNull null]
     };
 }
 
@@ -1,13 +1,21 @@
 import { defineConfig } from "@rslib/core";
 
+// Bundleless, so `@hot-updater/react-native/testing` shares the store and native module with the main entry
 export default defineConfig({
+  source: {
+    entry: {
+      index: ["./src/**", "!./src/**/*.d.ts", "!./src/**/*.spec.ts"],
+    },
+  },
   lib: [
     {
       format: "esm",
+      bundle: false,
       dts: true,
     },
     {
       format: "cjs",
+      bundle: false,
       dts: true,
     },
   ],
@@ -0,0 +1,93 @@
+import type { AppUpdateInfo } from "@hot-updater/core";
+import React from "react";
+import { Modal, Pressable, StyleSheet, Text, View } from "react-native";
+
+export interface UpdatePromptProps {
+  /**
+   * `DOWNLOAD` asks before the bundle is downloaded, `APPLY` asks before the app reloads into it.
+   */
+  type: "DOWNLOAD" | "APPLY";
+  updateInfo: AppUpdateInfo;
+  onAccept: () => void;
+  onDecline: () => void;
+}
+
+/**
+ * A minimal prompt for optional updates. Pass it as `updatePromptComponent` to `HotUpdater.wrap`,
+ * or use it as a reference for a prompt matching the design of the app.
+ */
+export const UpdatePrompt = ({
+  type,
+  updateInfo,
+  onAccept,
+  onDecline,
+}: UpdatePromptProps) => {
+  const title =
+    type === "DOWNLOAD"
+      ? "A new version is available"
+      : "A new version is ready — restart now?";
+
+  return (
+    <Modal transparent animationType="fade" onRequestClose={onDecline}>
+      <View style={styles.backdrop}>
+        <View style={styles.dialog}>
+          <Text style={styles.title}>{title}</Text>
+          {updateInfo.message ? (
+            <Text style={styles.message}>{updateInfo.message}</Text>
+          ) : null}
+          <View style={styles.actions}>
+            <Pressable style={styles.button} onPress={onDecline}>
+              <Text style={styles.buttonText}>Later</Text>
+            </Pressable>
+            <Pressable style={styles.button} onPress={onAccept}>
+              <Text style={[styles.buttonText, styles.primaryText]}>
+                {type === "DOWNLOAD" ? "Download" : "Restart"}
+              </Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+    backgroundColor: "rgba(0, 0, 0, 0.4)",
+  },
+  dialog: {
+    width: "80%",
+    padding: 20,
+    borderRadius: 12,
+    backgroundColor: "white",
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: "600",
+  },
+  message: {
+    marginTop: 8,
+    fontSize: 15,
+    color: "#555",
+  },
+  actions: {
+    flexDirection: "row",
+    justifyContent: "flex-end",
+    marginTop: 16,
+  },
+  button: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  buttonText: {
+    fontSize: 15,
+    color: "#555",
+  },
+  primaryText: {
+    color: "#007aff",
+    fontWeight: "600",
+  },
+});
@@ -1,32 +1,155 @@
+import type { AppUpdateInfo } from "@hot-updater/core";
 import { Platform } from "react-native";
-import { HotUpdaterError } from "./error";
-import { type UpdateSource, fetchUpdateInfo } from "./fetchUpdateInfo";
+import { getDownloadedBundleId } from "./downloadUpdate";
+import { HotUpdaterError, toHotUpdaterError } from "./error";
 import {
+  type FetchUpdateInfo,
+  type RequestHeaders,
+  type RetryOptions,
+  type UpdateSource,
+  fetchUpdateInfo,
+} from "./fetchUpdateInfo";
+import {
+  emitEvent,
   getAppVersion,
   getBundleId,
   getChannel,
+  getDeviceId,
+  getFingerprintHash,
   getMinBundleId,
 } from "./native";
+import { hotUpdaterStore } from "./store";
 
 export interface CheckForUpdateOptions {
   source: UpdateSource;
-  requestHeaders?: Record<string, string>;
-  onError?: (error: Error) => void;
   /**
-   * The timeout duration for the request.
+   * Headers sent to the update server. A function is evaluated on every check.
+   *
+   * @example
+   * ```ts
+   * requestHeaders: async () => ({
+   *   Authorization: `Bearer ${await getAccessToken()}`,
+   * }),
+   * ```
+   */
+  requestHeaders?: RequestHeaders;
+  /**
+   * Replaces the global `fetch` for requests to the update server, e.g. to route them through the networking layer of the app.
+   */
+  fetch?: FetchUpdateInfo;
+  onError?: (error: HotUpdaterError) => void;
+  /**
+   * The timeout of each request in milliseconds, retries and mirrors included.
    * @default 5000
    */
   requestTimeout?: number;
+  /**
+   * Retries failed requests with exponential backoff. Network failures, timeouts and
+   * 5xx or 429 responses are retried; with a list of mirrors in `source`, the next mirror
+   * is tried once the retries of a URL are exhausted.
+   *
+   * Every request is reported to the `onCheckForUpdateAttempt` listener.
+   *
+   * @example
+   * ```ts
+   * HotUpdater.checkForUpdate({
+   *   source: ["https://updates.example.com", "https://updates-mirror.example.com"],
+   *   retry: { retries: 3, minDelay: 500 },
+   * });
+   * ```
+   */
+  retry?: RetryOptions;
+  /**
+   * Whether the update info should list `releaseNotes`, the messages of every bundle
+   * between the current bundle and the update, so changes of skipped bundles are not lost.
+   * @default false
+   */
+  includeReleaseNotes?: boolean;
 }
 
-export async function checkForUpdate(options: CheckForUpdateOptions) {
-  if (__DEV__) {
+/**
+ * Asks the update server whether a bundle update is available.
+ *
+ * Resolves with `null` when the app is up to date. A `NATIVE_UPDATE_REQUIRED` status means
+ * the installed app is older than the minimum app version of its channel; no bundle is served
+ * and the user should update the app from `storeUrl` instead.
+ *
+ * The result is recorded in `hotUpdaterStore`.
+ */
+export async function checkForUpdate(
+  options: CheckForUpdateOptions,
+): Promise<AppUpdateInfo | null> {
+  hotUpdaterStore.setState({ status: "CHECKING", error: null });
+  emitEvent("onCheckForUpdateStart", { bundleId: getBundleId() });
+
+  let error: HotUpdaterError | null = null;
+  const onError = (e: HotUpdaterError) => {
+    error = e;
+    options.onError?.(e);
+  };
+
+  let updateInfo: AppUpdateInfo | null;
+  try {
+    updateInfo = await requestUpdateInfo({ ...options, onError });
+  } catch (e) {
+    const hotUpdaterError = toHotUpdaterError(e);
+    reportCheckError(hotUpdaterError);
+    throw hotUpdaterError;
+  }
+
+  if (error) {
+    reportCheckError(error);
+    return null;
+  }
+
+  hotUpdaterStore.setState({
+    status: !updateInfo
+      ? "UP_TO_DATE"
+      : updateInfo.status === "NATIVE_UPDATE_REQUIRED"
+        ? "NATIVE_UPDATE_REQUIRED"
+        : updateInfo.id === getDownloadedBundleId()
+          ? "READY_TO_APPLY"
+          : "UPDATE_AVAILABLE",
+    updateInfo,
+    lastCheckedAt: Date.now(),
+  });
+  emitEvent("onCheckForUpdateComplete", { updateInfo, error: null });
+  if (updateInfo?.status === "UPDATE") {
+    emitEvent("onUpdateAvailable", { updateInfo });
+  } else if (updateInfo?.status === "ROLLBACK") {
+    emitEvent("onRollback", { updateInfo });
+  }
+  return updateInfo;
+}
+
+const reportCheckError = (error: HotUpdaterError) => {
+  hotUpdaterStore.setState({
+    status: "ERROR",
+    error,
+    lastCheckedAt: Date.now(),
+  });
+  emitEvent("onCheckForUpdateComplete", { updateInfo: null, error });
+  emitEvent("onError", { error });
+};
+
+// Checks are skipped in development builds, except under `@hot-updater/react-native/testing`
+let isSkippedInDev = true;
+
+export const setSkippedInDev = (skipped: boolean) => {
+  isSkippedInDev = skipped;
+};
+
+const requestUpdateInfo = async (options: CheckForUpdateOptions) => {
+  if (__DEV__ && isSkippedInDev) {
     return null;
   }
 
   if (!["ios", "android"].includes(Platform.OS)) {
     options.onError?.(
-      new HotUpdaterError("HotUpdater is only supported on iOS and Android"),
+      new HotUpdaterError(
+        "UNSUPPORTED_PLATFORM",
+        "HotUpdater is only supported on iOS and Android",
+      ),
     );
     return null;
   }
@@ -36,9 +159,13 @@ export async function checkForUpdate(options: CheckForUpdateOptions) {
   const currentBundleId = getBundleId();
   const minBundleId = getMinBundleId();
   const channel = getChannel();
+  const deviceId = getDeviceId();
+  const fingerprintHash = getFingerprintHash();
 
   if (!currentAppVersion) {
-    options.onError?.(new HotUpdaterError("Failed to get app version"));
+    options.onError?.(
+      new HotUpdaterError("NOT_LINKED", "Failed to get app version"),
+    );
     return null;
   }
 
@@ -50,9 +177,16 @@ export async function checkForUpdate(options: CheckForUpdateOptions) {
       platform,
       minBundleId,
       channel: channel ?? undefined,
+      deviceId: deviceId ?? undefined,
+      fingerprintHash: fingerprintHash ?? undefined,
+      includeReleaseNotes: options.includeReleaseNotes,
+    },
+    {
+      requestHeaders: options.requestHeaders,
+      onError: options.onError,
+      requestTimeout: options.requestTimeout,
+      retry: options.retry,
+      fetch: options.fetch,
     },
-    options.requestHeaders,
-    options.onError,
-    options.requestTimeout,
   );
-}
+};
@@ -0,0 +1,87 @@
+import type { AppUpdateInfo } from "@hot-updater/core";
+import { HotUpdaterError } from "./error";
+import { emitEvent, reload, updateBundle } from "./native";
+import { hotUpdaterStore } from "./store";
+
+// The running bundle stays the same until a reload, so later checks keep returning the downloaded update
+let downloadedBundleId: string | null = null;
+
+// A check that finds a bundle while it is still downloading waits for that download instead of starting another
+const pendingDownloads = new Map<string, Promise<void>>();
+
+export const getDownloadedBundleId = () => downloadedBundleId;
+
+export const resetDownloadedBundleId = () => {
+  downloadedBundleId = null;
+};
+
+/**
+ * Downloads the bundle of an update and records the progress in `hotUpdaterStore`.
+ * The bundle is applied on the next reload.
+ *
+ * @throws {HotUpdaterError} `DOWNLOAD_FAILED` when the bundle fails to download
+ */
+export const downloadUpdate = (updateInfo: AppUpdateInfo) => {
+  const pendingDownload = pendingDownloads.get(updateInfo.id);
+  if (pendingDownload) {
+    return pendingDownload;
+  }
+
+  const download = downloadBundle(updateInfo).finally(() => {
+    pendingDownloads.delete(updateInfo.id);
+  });
+  pendingDownloads.set(updateInfo.id, download);
+  return download;
+};
+
+const downloadBundle = async (updateInfo: AppUpdateInfo) => {
+  if (updateInfo.id === downloadedBundleId) {
+    hotUpdaterStore.setState({ status: "READY_TO_APPLY", updateInfo });
+    return;
+  }
+
+  hotUpdaterStore.setState({
+    status: "DOWNLOADING",
+    progress: 0,
+    updateInfo,
+    error: null,
+  });
+  emitEvent("onDownloadStart", { updateInfo });
+
+  let isSuccess: boolean;
+  let cause: unknown;
+  try {
+    isSuccess = await updateBundle(updateInfo.id, updateInfo.fileUrl);
+  } catch (error) {
+    isSuccess = false;
+    cause = error;
+  }
+
+  if (!isSuccess) {
+    const error =
+      cause instanceof HotUpdaterError
+        ? cause
+        : new HotUpdaterError(
+            "DOWNLOAD_FAILED",
+            "New update was found but failed to download the bundle.",
+            { cause },
+          );
+    hotUpdaterStore.setState({ status: "ERROR", error });
+    emitEvent("onError", { error });
+    throw error;
+  }
+
+  downloadedBundleId = updateInfo.id;
+  hotUpdaterStore.setState({ status: "READY_TO_APPLY", isBundleUpdated: true });
+  emitEvent("onDownloadComplete", { updateInfo });
+};
+
+/**
+ * Reloads the app into the downloaded bundle.
+ */
+export const applyDownloadedUpdate = () => {
+  if (downloadedBundleId) {
+    emitEvent("onUpdateApplied", { bundleId: downloadedBundleId });
+  }
+  reload();
+};
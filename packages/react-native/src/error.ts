@@ -1,6 +1,66 @@
+/**
+ * What failed, so failures can be handled or reported by class.
+ *
+ * - `NETWORK_ERROR`: the update server could not be reached.
+ * - `TIMEOUT`: the update server did not respond within `requestTimeout`.
+ * - `HTTP_ERROR`: the update server responded with a non-200 status, see `status`.
+ * - `INVALID_RESPONSE`: the update server responded with a body that is not update info.
+ * - `DOWNLOAD_FAILED`: the bundle of an update could not be downloaded.
+ * - `UNSUPPORTED_PLATFORM`: the app runs on a platform other than iOS and Android.
+ * - `NOT_LINKED`: the native module is missing or did not provide its constants.
+ * - `UNKNOWN`: anything else, see `cause`.
+ */
+export type HotUpdaterErrorCode =
+  | "NETWORK_ERROR"
+  | "TIMEOUT"
+  | "HTTP_ERROR"
+  | "INVALID_RESPONSE"
+  | "DOWNLOAD_FAILED"
+  | "UNSUPPORTED_PLATFORM"
+  | "NOT_LINKED"
+  | "UNKNOWN";
+
+export interface HotUpdaterErrorOptions {
+  /**
+   * The HTTP status of the response. Only set for `HTTP_ERROR`.
+   */
+  status?: number;
+  /**
+   * The underlying error.
+   */
+  cause?: unknown;
+}
+
 export class HotUpdaterError extends Error {
-  constructor(message: string) {
+  readonly code: HotUpdaterErrorCode;
+  readonly status: number | null;
+
+  constructor(
+    code: HotUpdaterErrorCode,
+    message: string,
+    { status, cause }: HotUpdaterErrorOptions = {},
+  ) {
     super(message);
     this.name = "HotUpdaterError";
+    this.code = code;
+    this.status = status ?? null;
+    this.cause = cause;
   }
 }
+
+/**
+ * Wraps anything thrown into a `HotUpdaterError`, keeping `HotUpdaterError`s as they are.
+ */
+export const toHotUpdaterError = (
+  error: unknown,
+  code: HotUpdaterErrorCode = "UNKNOWN",
+) => {
+  if (error instanceof HotUpdaterError) {
+    return error;
+  }
+  return new HotUpdaterError(
+    code,
+    error instanceof Error ? error.message : String(error),
+    { cause: error },
+  );
+};
@@ -1,25 +1,198 @@
-import type { AppUpdateInfo, GetBundlesArgs } from "@hot-updater/core";
+import {
+  type AppUpdateInfo,
+  type GetBundlesArgs,
+  validateAppUpdateInfo,
+} from "@hot-updater/core";
+import { HotUpdaterError, toHotUpdaterError } from "./error";
+import { emitEvent } from "./native";
 
-export type UpdateSource = string | (() => Promise<AppUpdateInfo | null>);
+/**
+ * The update server URL, mirror URLs tried in order, or a function resolving the update info.
+ */
+export type UpdateSource =
+  | string
+  | string[]
+  | (() => Promise<AppUpdateInfo | null>);
+
+/**
+ * Static headers, or a function evaluated on every update check, e.g. to attach a short-lived token.
+ */
+export type RequestHeaders =
+  | Record<string, string>
+  | (() => Record<string, string> | Promise<Record<string, string>>);
+
+/**
+ * A `fetch` compatible function used for requests to the update server.
+ */
+export type FetchUpdateInfo = (
+  url: string,
+  init: { headers: Record<string, string>; signal: AbortSignal },
+) => Promise<Response>;
+
+export interface RetryOptions {
+  /**
+   * How many times a failed request to a URL is retried before moving on to the next mirror.
+   * @default 0
+   */
+  retries?: number;
+  /**
+   * Milliseconds before the first retry.
+   * @default 1000
+   */
+  minDelay?: number;
+  /**
+   * Upper bound of the delay between retries in milliseconds.
+   * @default 30000
+   */
+  maxDelay?: number;
+  /**
+   * Multiplier applied to the delay after every retry.
+   * @default 2
+   */
+  factor?: number;
+  /**
+   * Randomizes each delay between half and the full value, so devices do not retry in lockstep.
+   * @default true
+   */
+  jitter?: boolean;
+}
+
+const wait = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const getRetryDelay = (
+  attempt: number,
+  {
+    minDelay = 1000,
+    maxDelay = 30000,
+    factor = 2,
+    jitter = true,
+  }: RetryOptions,
+) => {
+  const delay = Math.min(maxDelay, minDelay * factor ** (attempt - 1));
+  return Math.round(jitter ? delay * (0.5 + Math.random() / 2) : delay);
+};
+
+// Client errors and bad responses fail the same way on a retry, so only the next mirror can help
+const isRetryable = (error: HotUpdaterError) =>
+  error.code === "NETWORK_ERROR" ||
+  error.code === "TIMEOUT" ||
+  (error.code === "HTTP_ERROR" &&
+    error.status !== null &&
+    (error.status >= 500 || error.status === 429));
+
+export interface FetchUpdateInfoOptions {
+  requestHeaders?: RequestHeaders;
+  onError?: (error: HotUpdaterError) => void;
+  requestTimeout?: number;
+  retry?: RetryOptions;
+  fetch?: FetchUpdateInfo;
+}
 
 export const fetchUpdateInfo = async (
   source: UpdateSource,
-  { appVersion, bundleId, platform, minBundleId, channel }: GetBundlesArgs,
-  requestHeaders?: Record<string, string>,
-  onError?: (error: Error) => void,
-  requestTimeout = 5000,
+  args: GetBundlesArgs,
+  {
+    requestHeaders,
+    onError,
+    requestTimeout = 5000,
+    retry = {},
+    fetch: fetchImpl = fetch,
+  }: FetchUpdateInfoOptions = {},
 ): Promise<AppUpdateInfo | null> => {
   if (typeof source === "function") {
-    return source();
+    try {
+      return await source();
+    } catch (error) {
+      onError?.(toHotUpdaterError(error));
+      return null;
+    }
+  }
+
+  let headers: Record<string, string> | undefined;
+  try {
+    headers =
+      typeof requestHeaders === "function"
+        ? await requestHeaders()
+        : requestHeaders;
+  } catch (error) {
+    onError?.(toHotUpdaterError(error));
+    return null;
+  }
+
+  const urls = Array.isArray(source) ? source : [source];
+  const { retries = 0 } = retry;
+
+  let lastError: HotUpdaterError | null = null;
+  for (const url of urls) {
+    for (let attempt = 1; attempt <= retries + 1; attempt++) {
+      try {
+        const updateInfo = await requestUpdateInfo(
+          fetchImpl,
+          url,
+          args,
+          headers,
+          requestTimeout,
+        );
+        emitEvent("onCheckForUpdateAttempt", {
+          url,
+          attempt,
+          error: null,
+          retryDelay: null,
+        });
+        return updateInfo;
+      } catch (error) {
+        lastError = toHotUpdaterError(error, "NETWORK_ERROR");
+
+        const retryDelay =
+          attempt <= retries && isRetryable(lastError)
+            ? getRetryDelay(attempt, retry)
+            : null;
+        emitEvent("onCheckForUpdateAttempt", {
+          url,
+          attempt,
+          error: lastError,
+          retryDelay,
+        });
+
+        if (retryDelay === null) {
+          break;
+        }
+        await wait(retryDelay);
+      }
+    }
   }
 
+  if (lastError) {
+    onError?.(lastError);
+  }
+  return null;
+};
+
+const requestUpdateInfo = async (
+  fetchImpl: FetchUpdateInfo,
+  url: string,
+  {
+    appVersion,
+    bundleId,
+    platform,
+    minBundleId,
+    channel,
+    deviceId,
+    fingerprintHash,
+    includeReleaseNotes,
+  }: GetBundlesArgs,
+  requestHeaders: Record<string, string> | undefined,
+  requestTimeout: number,
+): Promise<AppUpdateInfo | null> => {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => {
     controller.abort();
   }, requestTimeout);
 
+  let response: Response;
   try {
-    const response = await fetch(source, {
+    response = await fetchImpl(url, {
       signal: controller.signal,
       headers: {
         "Content-Type": "application/json",
@@ -28,22 +201,55 @@ export const fetchUpdateInfo = async (
         "x-bundle-id": bundleId,
         ...(minBundleId ? { "x-min-bundle-id": minBundleId } : {}),
         ...(channel ? { "x-channel": channel } : {}),
+        ...(deviceId ? { "x-device-id": deviceId } : {}),
+        ...(fingerprintHash ? { "x-fingerprint-hash": fingerprintHash } : {}),
+        ...(includeReleaseNotes ? { "x-include-release-notes": "true" } : {}),
         ...requestHeaders,
       },
     });
-
+  } catch (error) {
+    if (error instanceof Error && error.name === "AbortError") {
+      throw new HotUpdaterError("TIMEOUT", "Request timed out", {
+        cause: error,
+      });
+    }
+    throw toHotUpdaterError(error, "NETWORK_ERROR");
+  } finally {
     clearTimeout(timeoutId);
+  }
 
-    if (response.status !== 200) {
-      throw new Error(response.statusText);
-    }
-    return response.json();
-  } catch (error: any) {
-    if (error.name === "AbortError") {
-      onError?.(new Error("Request timed out"));
-      return null;
-    }
-    onError?.(error as Error);
+  if (response.status !== 200) {
+    throw new HotUpdaterError(
+      "HTTP_ERROR",
+      response.statusText || `Request failed with status ${response.status}`,
+      { status: response.status },
+    );
+  }
+
+  let updateInfo: unknown;
+  try {
+    updateInfo = await response.json();
+  } catch (error) {
+    throw new HotUpdaterError(
+      "INVALID_RESPONSE",
+      "Update server responded with invalid JSON",
+      { cause: error },
+    );
+  }
+  // `null` means the app is up to date
+  if (updateInfo === null) {
     return null;
   }
+
+  const validation = validateAppUpdateInfo(updateInfo);
+  if (!validation.success) {
+    throw new HotUpdaterError(
+      "INVALID_RESPONSE",
+      `Update server responded with invalid update info: ${validation.errors
+        .map((error) => `${error.path} (expected ${error.expected})`)
+        .join(", ")}`,
+      { cause: validation.errors },
+    );
+  }
+  return validation.data;
 };
@@ -4,6 +4,8 @@ import {
   getAppVersion,
   getBundleId,
   getChannel,
+  getDeviceId,
+  getFingerprintHash,
   getMinBundleId,
   reload,
   setChannel,
@@ -14,9 +16,26 @@ import { hotUpdaterStore } from "./store";
 import { wrap } from "./wrap";
 
 export type { HotUpdaterOptions } from "./wrap";
+export type { InstallMode, InstallModeOptions } from "./installMode";
+export type { UpdateCheckScheduleOptions } from "./scheduleUpdateChecks";
 export type { HotUpdaterEvent } from "./native";
+export type {
+  FetchUpdateInfo,
+  RequestHeaders,
+  RetryOptions,
+  UpdateSource,
+} from "./fetchUpdateInfo";
+export {
+  HotUpdaterError,
+  type HotUpdaterErrorCode,
+  type HotUpdaterErrorOptions,
+} from "./error";
+export type { BundleMetadata, ReleaseNote } from "@hot-updater/core";
 
 export * from "./store";
+export { useHotUpdater } from "./useHotUpdater";
+export { UpdatePrompt, type UpdatePromptProps } from "./UpdatePrompt";
+export type { UpdateConsentOptions } from "./updateConsent";
 
 addListener("onProgress", ({ progress }) => {
   hotUpdaterStore.setState({
@@ -30,9 +49,19 @@ export const HotUpdater = {
    *
    * @param {object} options - Configuration options
    * @param {string} options.source - Update server URL
-   * @param {object} [options.requestHeaders] - Request headers
+   * @param {RequestHeaders} [options.requestHeaders] - Request headers, or a function returning them on every check
+   * @param {FetchUpdateInfo} [options.fetch] - Replaces the global `fetch` for requests to the update server
    * @param {React.ComponentType} [options.fallbackComponent] - Component to display during updates
    * @param {boolean} [options.reloadOnForceUpdate=true] - Whether to automatically reload the app on force updates
+   * @param {InstallMode} [options.installMode="ON_NEXT_RESTART"] - When an optional update is applied
+   * @param {InstallMode} [options.mandatoryInstallMode] - When a force update is applied
+   * @param {number} [options.minimumBackgroundDuration=0] - Seconds in the background before an `ON_NEXT_RESUME` update is applied
+   * @param {boolean} [options.checkOnForeground=false] - Whether to check for updates again when the app returns to the foreground
+   * @param {number} [options.checkInterval] - Seconds between periodic update checks
+   * @param {number} [options.minimumCheckInterval=60] - Minimum seconds between two update checks
+   * @param {Function} [options.shouldDownloadUpdate] - Asks whether an optional update is downloaded
+   * @param {Function} [options.shouldApplyUpdate] - Asks whether a downloaded optional update is applied right away
+   * @param {React.ComponentType} [options.updatePromptComponent] - Component asking the user about optional updates
    * @param {Function} [options.onUpdateProcessCompleted] - Callback after update process completes
    * @param {Function} [options.onProgress] - Callback to track bundle download progress
    * @returns {Function} Higher-order component that wraps the app component
@@ -83,6 +112,16 @@ export const HotUpdater = {
    * Sets the channel for the app.
    */
   setChannel,
+  /**
+   * Fetches the stable device identifier that is sent to the update server.
+   * It decides whether the device is part of a percentage rollout and matches device overrides configured in the console.
+   */
+  getDeviceId,
+  /**
+   * Fetches the fingerprint of the native build that is sent to the update server.
+   * Bundles deployed with a fingerprint are only served to builds with an identical fingerprint.
+   */
+  getFingerprintHash,
   /**
    * Adds a listener to HotUpdater events.
    *
@@ -98,6 +137,14 @@ export const HotUpdater = {
    *
    * // Unsubscribe when no longer needed
    * unsubscribe();
+   *
+   * // Report the update lifecycle to analytics
+   * HotUpdater.addListener("onUpdateAvailable", ({ updateInfo }) => {
+   *   analytics.track("update_available", { bundleId: updateInfo.id });
+   * });
+   * HotUpdater.addListener("onError", ({ error }) => {
+   *   analytics.track("update_error", { code: error.code, status: error.status });
+   * });
    * ```
    */
   addListener,
@@ -106,7 +153,8 @@ export const HotUpdater = {
    *
    * @param {Object} config - Update check configuration
    * @param {string} config.source - Update server URL
-   * @param {Record<string, string>} [config.requestHeaders] - Request headers
+   * @param {RequestHeaders} [config.requestHeaders] - Request headers, or a function returning them on every check
+   * @param {FetchUpdateInfo} [config.fetch] - Replaces the global `fetch` for requests to the update server
    *
    * @returns {Promise<UpdateInfo | null>} Update information or null if up to date
    *
@@ -136,7 +184,8 @@ export const HotUpdater = {
    *
    * @param {RunUpdateProcessConfig} config - Update process configuration
    * @param {string} config.source - Update server URL
-   * @param {Record<string, string>} [config.requestHeaders] - Request headers
+   * @param {RequestHeaders} [config.requestHeaders] - Request headers, or a function returning them on every check
+   * @param {FetchUpdateInfo} [config.fetch] - Replaces the global `fetch` for requests to the update server
    * @param {boolean} [config.reloadOnForceUpdate=false] - Whether to automatically reload on force update
    *
    * @example
@@ -0,0 +1,96 @@
+import { AppState, type AppStateStatus } from "react-native";
+import { applyDownloadedUpdate } from "./downloadUpdate";
+
+/**
+ * When a downloaded bundle is applied.
+ *
+ * - `IMMEDIATE`: reloads the app as soon as the bundle is downloaded.
+ * - `ON_NEXT_RESTART`: keeps the current bundle until the app is restarted.
+ * - `ON_NEXT_RESUME`: reloads the app when it returns to the foreground after
+ *   staying in the background for at least `minimumBackgroundDuration` seconds.
+ */
+export type InstallMode = "IMMEDIATE" | "ON_NEXT_RESTART" | "ON_NEXT_RESUME";
+
+export interface InstallModeOptions {
+  /**
+   * How an optional update (`shouldForceUpdate: false`) is applied once downloaded.
+   * @default "ON_NEXT_RESTART"
+   */
+  installMode?: InstallMode;
+  /**
+   * How a force update (`shouldForceUpdate: true`) is applied once downloaded.
+   * Defaults to `"IMMEDIATE"`, or `"ON_NEXT_RESTART"` when `reloadOnForceUpdate` is `false`.
+   */
+  mandatoryInstallMode?: InstallMode;
+  /**
+   * Seconds the app must stay in the background before an `ON_NEXT_RESUME` update reloads it.
+   * @default 0
+   */
+  minimumBackgroundDuration?: number;
+}
+
+/**
+ * Picks the install mode of an update, keeping `reloadOnForceUpdate` as the fallback for force updates.
+ */
+export const resolveInstallMode = (
+  shouldForceUpdate: boolean,
+  {
+    installMode = "ON_NEXT_RESTART",
+    mandatoryInstallMode,
+    reloadOnForceUpdate = true,
+  }: InstallModeOptions & { reloadOnForceUpdate?: boolean },
+): InstallMode => {
+  if (!shouldForceUpdate) {
+    return installMode;
+  }
+  return (
+    mandatoryInstallMode ??
+    (reloadOnForceUpdate ? "IMMEDIATE" : "ON_NEXT_RESTART")
+  );
+};
+
+let pendingResumeSubscription: { remove: () => void } | null = null;
+
+/**
+ * Reloads the app into the downloaded bundle according to the install mode.
+ */
+export const applyInstallMode = (
+  installMode: InstallMode,
+  minimumBackgroundDuration = 0,
+) => {
+  switch (installMode) {
+    case "IMMEDIATE":
+      applyDownloadedUpdate();
+      return;
+    case "ON_NEXT_RESTART":
+      return;
+    case "ON_NEXT_RESUME": {
+      // A newer update replaces the pending one, so only the latest listener is kept
+      pendingResumeSubscription?.remove();
+
+      let backgroundedAt: number | null = null;
+      const subscription = AppState.addEventListener(
+        "change",
+        (nextState: AppStateStatus) => {
+          if (nextState === "background") {
+            backgroundedAt = Date.now();
+            return;
+          }
+          if (nextState !== "active" || backgroundedAt === null) {
+            return;
+          }
+
+          const backgroundDuration = Date.now() - backgroundedAt;
+          backgroundedAt = null;
+          if (backgroundDuration >= minimumBackgroundDuration * 1000) {
+            subscription.remove();
+            pendingResumeSubscription = null;
+            applyDownloadedUpdate();
+          }
+        },
+      );
+      pendingResumeSubscription = subscription;
+      return;
+    }
+  }
+};
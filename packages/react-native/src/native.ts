@@ -1,4 +1,7 @@
+import type { AppUpdateInfo } from "@hot-updater/core";
 import { NativeEventEmitter, NativeModules, Platform } from "react-native";
+import { HotUpdaterError } from "./error";
+import type { Spec } from "./specs/NativeHotUpdater";
 
 const NIL_UUID = "00000000-0000-0000-0000-000000000000";
 
@@ -17,36 +20,136 @@ const LINKING_ERROR =
 // @ts-expect-error
 const isTurboModuleEnabled = global.__turboModuleProxy != null;
 
-const HotUpdaterModule = isTurboModuleEnabled
-  ? require("./specs/NativeHotUpdater").default
-  : NativeModules.HotUpdater;
-
-const HotUpdaterNative = HotUpdaterModule
-  ? HotUpdaterModule
-  : new Proxy(
-      {},
-      {
-        get() {
-          throw new Error(LINKING_ERROR);
-        },
-      },
-    );
+// A null zip url rolls back to the built-in bundle, which the native modules accept
+export type HotUpdaterNativeModule = Omit<Spec, "updateBundle"> & {
+  updateBundle(bundleId: string, zipUrl: string | null): Promise<boolean>;
+};
+
+const getHotUpdaterModule = (): HotUpdaterNativeModule | null =>
+  isTurboModuleEnabled
+    ? require("./specs/NativeHotUpdater").default
+    : NativeModules.HotUpdater;
+
+// Resolved on every access, so a mock module installed after import is picked up
+const HotUpdaterNative = new Proxy({} as HotUpdaterNativeModule, {
+  get(_, property) {
+    const HotUpdaterModule = getHotUpdaterModule();
+    if (!HotUpdaterModule) {
+      throw new HotUpdaterError("NOT_LINKED", LINKING_ERROR);
+    }
+    const value = Reflect.get(HotUpdaterModule, property);
+    return typeof value === "function" ? value.bind(HotUpdaterModule) : value;
+  },
+});
 
 export type HotUpdaterEvent = {
+  /**
+   * Download progress of a bundle, between 0 and 1.
+   */
   onProgress: {
     progress: number;
   };
+  /**
+   * Emitted when an update check starts.
+   */
+  onCheckForUpdateStart: {
+    bundleId: string;
+  };
+  /**
+   * Emitted when an update check ends. `updateInfo` is `null` when the app is up to date or the check failed.
+   */
+  onCheckForUpdateComplete: {
+    updateInfo: AppUpdateInfo | null;
+    error: HotUpdaterError | null;
+  };
+  /**
+   * Emitted when a check finds a newer bundle.
+   */
+  onUpdateAvailable: {
+    updateInfo: AppUpdateInfo;
+  };
+  /**
+   * Emitted when a check finds that the app must roll back to an older bundle or the embedded one.
+   */
+  onRollback: {
+    updateInfo: AppUpdateInfo;
+  };
+  onDownloadStart: {
+    updateInfo: AppUpdateInfo;
+  };
+  onDownloadComplete: {
+    updateInfo: AppUpdateInfo;
+  };
+  /**
+   * Emitted right before the app reloads into a downloaded bundle.
+   */
+  onUpdateApplied: {
+    bundleId: string;
+  };
+  /**
+   * Emitted when a check or a download fails.
+   */
+  onError: {
+    error: HotUpdaterError;
+  };
+  /**
+   * Emitted after every request to the update server, including retries and mirrors.
+   */
+  onCheckForUpdateAttempt: {
+    url: string;
+    /**
+     * 1 for the first request to `url`, increased on every retry.
+     */
+    attempt: number;
+    /**
+     * `null` when the request succeeded.
+     */
+    error: HotUpdaterError | null;
+    /**
+     * Milliseconds until `url` is retried, `null` when no retry follows.
+     */
+    retryDelay: number | null;
+  };
+};
+
+// Read and written through `HotUpdaterEventListeners<T>`, since TypeScript cannot relate
+// a generic key to the listeners of every event
+type HotUpdaterEventListeners<T extends keyof HotUpdaterEvent> = {
+  [K in T]?: Set<(event: HotUpdaterEvent[K]) => void>;
+};
+
+// Events emitted from JavaScript rather than the native module
+const jsEventListeners: HotUpdaterEventListeners<keyof HotUpdaterEvent> = {};
+
+export const emitEvent = <T extends keyof HotUpdaterEvent>(
+  eventName: T,
+  event: HotUpdaterEvent[T],
+) => {
+  const eventListeners: HotUpdaterEventListeners<T> = jsEventListeners;
+  for (const listener of eventListeners[eventName] ?? []) {
+    listener(event);
+  }
 };
 
+// The only events the native modules emit, subscribing to any other one is an error on iOS
+const NATIVE_EVENTS: (keyof HotUpdaterEvent)[] = ["onProgress"];
+
 export const addListener = <T extends keyof HotUpdaterEvent>(
   eventName: T,
   listener: (event: HotUpdaterEvent[T]) => void,
 ) => {
-  const eventEmitter = new NativeEventEmitter(HotUpdaterNative);
-  const subscription = eventEmitter.addListener(eventName, listener);
+  const subscription = NATIVE_EVENTS.includes(eventName)
+    ? new NativeEventEmitter(HotUpdaterNative).addListener(eventName, listener)
+    : null;
+
+  const eventListeners: HotUpdaterEventListeners<T> = jsEventListeners;
+  const listeners = eventListeners[eventName] ?? new Set();
+  listeners.add(listener);
+  eventListeners[eventName] = listeners;
 
   return () => {
-    subscription.remove();
+    subscription?.remove();
+    listeners.delete(listener);
   };
 };
 
@@ -115,3 +218,25 @@ export const getChannel = (): string | null => {
   const constants = HotUpdaterNative.getConstants();
   return constants?.CHANNEL ?? HotUpdater.CHANNEL ?? null;
 };
+
+/**
+ * Fetches a stable identifier of the device.
+ * It is used by the update server to decide whether the device is part of a percentage rollout.
+ *
+ * @returns {string | null} The device id or null if not available.
+ */
+export const getDeviceId = (): string | null => {
+  const constants = HotUpdaterNative.getConstants();
+  return constants?.DEVICE_ID ?? null;
+};
+
+/**
+ * Fetches the fingerprint of the native build, generated by `hot-updater fingerprint`.
+ * Bundles deployed with a fingerprint are only served to builds with the same fingerprint.
+ *
+ * @returns {string | null} The fingerprint hash or null if the build has none.
+ */
+export const getFingerprintHash = (): string | null => {
+  const constants = HotUpdaterNative.getConstants();
+  return constants?.FINGERPRINT_HASH ?? null;
+};
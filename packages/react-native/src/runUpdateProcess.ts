@@ -1,17 +1,39 @@
 import { type CheckForUpdateOptions, checkForUpdate } from "./checkForUpdate";
-import { getBundleId, reload, updateBundle } from "./native";
+import { downloadUpdate } from "./downloadUpdate";
+import {
+  type InstallModeOptions,
+  applyInstallMode,
+  resolveInstallMode,
+} from "./installMode";
+import { getBundleId } from "./native";
+import {
+  type UpdateConsentOptions,
+  installOptionalUpdate,
+} from "./updateConsent";
 
 export interface RunUpdateProcessResponse {
-  status: "ROLLBACK" | "UPDATE" | "UP_TO_DATE";
+  status: "ROLLBACK" | "UPDATE" | "UP_TO_DATE" | "NATIVE_UPDATE_REQUIRED";
   shouldForceUpdate: boolean;
   message: string | null;
   id: string;
+  /**
+   * The store page of the app. Only set when `status` is `NATIVE_UPDATE_REQUIRED`.
+   */
+  storeUrl?: string | null;
+  /**
+   * Whether the bundle of the update was downloaded. `false` when `shouldDownloadUpdate` declined it.
+   */
+  isBundleUpdated?: boolean;
 }
 
-export interface RunUpdateProcessOptions extends CheckForUpdateOptions {
+export interface RunUpdateProcessOptions
+  extends CheckForUpdateOptions,
+    InstallModeOptions,
+    UpdateConsentOptions {
   /**
    * If `true`, the app will be reloaded when the downloaded bundle is a force update.
    * If `false`, shouldForceUpdate will be returned as true but the app won't reload.
+   * Ignored when `mandatoryInstallMode` is set.
    * @default true
    */
   reloadOnForceUpdate?: boolean;
@@ -22,8 +44,14 @@ export interface RunUpdateProcessOptions extends CheckForUpdateOptions {
  *
  * @param {RunUpdateProcessConfig} config - Update process configuration
  * @param {string} config.source - Update server URL
- * @param {Record<string, string>} [config.requestHeaders] - Request headers
+ * @param {RequestHeaders} [config.requestHeaders] - Request headers, or a function returning them on every check
+ * @param {FetchUpdateInfo} [config.fetch] - Replaces the global `fetch` for requests to the update server
  * @param {boolean} [config.reloadOnForceUpdate=true] - Whether to automatically reload on force update
+ * @param {InstallMode} [config.installMode="ON_NEXT_RESTART"] - When an optional update is applied
+ * @param {InstallMode} [config.mandatoryInstallMode] - When a force update is applied
+ * @param {number} [config.minimumBackgroundDuration=0] - Seconds in the background before an `ON_NEXT_RESUME` update is applied
+ * @param {Function} [config.shouldDownloadUpdate] - Asks whether an optional update is downloaded
+ * @param {Function} [config.shouldApplyUpdate] - Asks whether a downloaded optional update is applied right away
  *
  * @example
  * ```ts
@@ -45,12 +73,29 @@ export interface RunUpdateProcessOptions extends CheckForUpdateOptions {
  * if(result.status !== "UP_TO_DATE" && result.shouldForceUpdate) {
  *   HotUpdater.reload();
  * }
+ *
+ * // Apply optional updates when the app returns from at least a minute in the background
+ * const result = await HotUpdater.runUpdateProcess({
+ *   source: "<your-update-server-url>",
+ *   installMode: "ON_NEXT_RESUME",
+ *   minimumBackgroundDuration: 60,
+ * });
+ *
+ * // The app is too old for new bundles and must be updated from the store
+ * if (result.status === "NATIVE_UPDATE_REQUIRED" && result.storeUrl) {
+ *   Linking.openURL(result.storeUrl);
+ * }
  * ```
  *
  * @returns {Promise<RunUpdateProcessResponse>} The result of the update process
  */
 export const runUpdateProcess = async ({
   reloadOnForceUpdate = true,
+  installMode,
+  mandatoryInstallMode,
+  minimumBackgroundDuration,
+  shouldDownloadUpdate,
+  shouldApplyUpdate,
   ...checkForUpdateOptions
 }: RunUpdateProcessOptions): Promise<RunUpdateProcessResponse> => {
   const updateInfo = await checkForUpdate(checkForUpdateOptions);
@@ -63,18 +108,37 @@ export const runUpdateProcess = async ({
     };
   }
 
-  const isUpdated = await updateBundle(updateInfo.id, updateInfo.fileUrl);
-  if (isUpdated && updateInfo.shouldForceUpdate && reloadOnForceUpdate) {
-    reload();
+  if (updateInfo.status === "NATIVE_UPDATE_REQUIRED") {
+    return {
+      status: updateInfo.status,
+      shouldForceUpdate: updateInfo.shouldForceUpdate,
+      id: updateInfo.id,
+      message: updateInfo.message,
+      storeUrl: updateInfo.storeUrl ?? null,
+    };
   }
 
-  if (!isUpdated) {
-    throw new Error("New update was found but failed to download the bundle.");
+  let isBundleUpdated = true;
+  if (updateInfo.shouldForceUpdate) {
+    await downloadUpdate(updateInfo);
+    applyInstallMode(
+      resolveInstallMode(true, { mandatoryInstallMode, reloadOnForceUpdate }),
+      minimumBackgroundDuration,
+    );
+  } else {
+    isBundleUpdated = await installOptionalUpdate(
+      updateInfo,
+      { shouldDownloadUpdate, shouldApplyUpdate },
+      resolveInstallMode(false, { installMode }),
+      minimumBackgroundDuration,
+    );
   }
+
   return {
     status: updateInfo.status,
     shouldForceUpdate: updateInfo.shouldForceUpdate,
     id: updateInfo.id,
     message: updateInfo.message,
+    isBundleUpdated,
   };
 };
@@ -0,0 +1,75 @@
+import { AppState, type AppStateStatus } from "react-native";
+
+export interface UpdateCheckScheduleOptions {
+  /**
+   * Checks for updates again whenever the app returns to the foreground.
+   * @default false
+   */
+  checkOnForeground?: boolean;
+  /**
+   * Seconds between periodic update checks while the app is running.
+   * If not defined, the app does not check periodically.
+   */
+  checkInterval?: number;
+  /**
+   * Minimum seconds between two update checks, whichever triggered them.
+   * @default 60
+   */
+  minimumCheckInterval?: number;
+}
+
+/**
+ * Runs `check` on foreground and on an interval. A trigger is dropped while a check is
+ * still running or when the last one started less than `minimumCheckInterval` seconds ago.
+ *
+ * The initial check at mount counts as the first one.
+ *
+ * @returns {() => void} A cleanup function that stops the scheduled checks
+ */
+export const scheduleUpdateChecks = (
+  check: () => Promise<void>,
+  {
+    checkOnForeground = false,
+    checkInterval,
+    minimumCheckInterval = 60,
+  }: UpdateCheckScheduleOptions,
+) => {
+  let lastCheckedAt = Date.now();
+  let isChecking = false;
+
+  const trigger = async () => {
+    if (
+      isChecking ||
+      Date.now() - lastCheckedAt < minimumCheckInterval * 1000
+    ) {
+      return;
+    }
+    isChecking = true;
+    lastCheckedAt = Date.now();
+    try {
+      await check();
+    } finally {
+      isChecking = false;
+    }
+  };
+
+  const subscription = checkOnForeground
+    ? AppState.addEventListener("change", (nextState: AppStateStatus) => {
+        if (nextState === "active") {
+          void trigger();
+        }
+      })
+    : null;
+
+  const interval =
+    checkInterval !== undefined && checkInterval > 0
+      ? setInterval(() => void trigger(), checkInterval * 1000)
+      : null;
+
+  return () => {
+    subscription?.remove();
+    if (interval) {
+      clearInterval(interval);
+    }
+  };
+};
@@ -1,7 +1,7 @@
 import type { TurboModule } from "react-native";
 import { TurboModuleRegistry } from "react-native";
 
-interface Spec extends TurboModule {
+export interface Spec extends TurboModule {
   // Methods
   reload(): void;
   updateBundle(bundleId: string, zipUrl: string): Promise<boolean>;
@@ -20,6 +20,8 @@ interface Spec extends TurboModule {
     MIN_BUNDLE_ID: string;
     APP_VERSION: string | null;
     CHANNEL: string | null;
+    DEVICE_ID: string | null;
+    FINGERPRINT_HASH: string | null;
   };
 }
 
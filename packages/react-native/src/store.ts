@@ -1,15 +1,50 @@
+import type { AppUpdateInfo } from "@hot-updater/core";
 import useSyncExternalStoreExports from "use-sync-external-store/shim/with-selector";
+
+/**
+ * Where the app is in the update flow.
+ *
+ * `IDLE` → `CHECKING` → `UP_TO_DATE` | `UPDATE_AVAILABLE` | `NATIVE_UPDATE_REQUIRED` | `ERROR`,
+ * then `UPDATE_AVAILABLE` → `DOWNLOADING` → `READY_TO_APPLY` | `ERROR`.
+ */
+export type HotUpdaterStatus =
+  | "IDLE"
+  | "CHECKING"
+  | "UP_TO_DATE"
+  | "UPDATE_AVAILABLE"
+  | "NATIVE_UPDATE_REQUIRED"
+  | "DOWNLOADING"
+  | "READY_TO_APPLY"
+  | "ERROR";
+
 export type HotUpdaterState = {
+  status: HotUpdaterStatus;
   progress: number;
   isBundleUpdated: boolean;
+  /**
+   * The result of the last update check, `null` when the app was up to date.
+   */
+  updateInfo: AppUpdateInfo | null;
+  /**
+   * The error of the last failed check or download. Cleared when a new check or download starts.
+   */
+  error: Error | null;
+  /**
+   * When the last update check finished, in milliseconds since the epoch.
+   */
+  lastCheckedAt: number | null;
 };
 
 const { useSyncExternalStoreWithSelector } = useSyncExternalStoreExports;
 
 const createHotUpdaterStore = () => {
   let state: HotUpdaterState = {
+    status: "IDLE",
     progress: 0,
     isBundleUpdated: false,
+    updateInfo: null,
+    error: null,
+    lastCheckedAt: null,
   };
 
   const getSnapshot = () => {
@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { checkForUpdate } from "../checkForUpdate";
+import { createFakeUpdateServer } from "./createFakeUpdateServer";
+import { createUpdateInfo } from "./hotUpdaterState";
+import { mockNativeModule } from "./mockNativeModule";
+
+vi.mock("react-native", () => ({
+  NativeModules: {},
+  NativeEventEmitter: class {
+    addListener() {
+      return { remove: () => {} };
+    }
+  },
+  Platform: { OS: "ios", select: () => "" },
+}));
+
+describe("createFakeUpdateServer", () => {
+  beforeEach(() => {
+    vi.stubGlobal("__DEV__", true);
+    mockNativeModule({ constants: { APP_VERSION: "1.0.0", CHANNEL: "beta" } });
+  });
+
+  it("should respond that the app is up to date until told otherwise", async () => {
+    const server = createFakeUpdateServer();
+
+    await expect(
+      checkForUpdate({ source: server.url, fetch: server.fetch }),
+    ).resolves.toBeNull();
+  });
+
+  it("should respond with the given update info", async () => {
+    const server = createFakeUpdateServer();
+    const updateInfo = createUpdateInfo({ shouldForceUpdate: true });
+    server.respondWith(updateInfo);
+
+    await expect(
+      checkForUpdate({ source: server.url, fetch: server.fetch }),
+    ).resolves.toMatchObject(updateInfo);
+  });
+
+  it("should record the requests of the SDK", async () => {
+    const server = createFakeUpdateServer({
+      url: "https://updates.example.test",
+    });
+
+    await checkForUpdate({ source: server.url, fetch: server.fetch });
+
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0]?.url).toBe("https://updates.example.test");
+    expect(server.requests[0]?.headers).toMatchObject({
+      "x-app-platform": "ios",
+      "x-app-version": "1.0.0",
+      "x-channel": "beta",
+    });
+  });
+
+  it("should fail checks with an HTTP error status", async () => {
+    const server = createFakeUpdateServer();
+    server.respondWithStatus(500);
+    const onError = vi.fn();
+
+    await expect(
+      checkForUpdate({ source: server.url, fetch: server.fetch, onError }),
+    ).resolves.toBeNull();
+    expect(onError).toHaveBeenCalledOnce();
+  });
+
+  it("should fail checks as if the server could not be reached", async () => {
+    const server = createFakeUpdateServer();
+    server.failWithNetworkError();
+
+    await expect(
+      server.fetch(server.url, {
+        headers: {},
+        signal: new AbortController().signal,
+      }),
+    ).rejects.toThrow("Network request failed");
+  });
+});
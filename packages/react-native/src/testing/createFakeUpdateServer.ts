@@ -0,0 +1,93 @@
+import type { AppUpdateInfo } from "@hot-updater/core";
+import type { FetchUpdateInfo } from "../fetchUpdateInfo";
+
+export interface FakeUpdateServerOptions {
+  /**
+   * @default "https://updates.hot-updater.test"
+   */
+  url?: string;
+  /**
+   * Milliseconds before each response.
+   * @default 0
+   */
+  delay?: number;
+}
+
+export interface FakeUpdateServer {
+  /**
+   * Pass as `source`.
+   */
+  url: string;
+  /**
+   * Pass as `fetch`.
+   */
+  fetch: FetchUpdateInfo;
+  /**
+   * Every request to the server, oldest first.
+   */
+  requests: { url: string; headers: Record<string, string> }[];
+  /**
+   * Responds to the next checks with `updateInfo`, `null` meaning the app is up to date.
+   */
+  respondWith: (updateInfo: AppUpdateInfo | null) => void;
+  /**
+   * Responds to the next checks with an HTTP error status, or `body` as it is.
+   */
+  respondWithStatus: (status: number, body?: unknown) => void;
+  /**
+   * Fails the next checks as if the server could not be reached.
+   */
+  failWithNetworkError: () => void;
+}
+
+/**
+ * Creates an in-memory update server for the `source` and `fetch` options.
+ * It responds with `null` until told otherwise.
+ *
+ * @example
+ * ```tsx
+ * const server = createFakeUpdateServer();
+ * server.respondWith(createUpdateInfo({ shouldForceUpdate: true }));
+ *
+ * const App = HotUpdater.wrap({ source: server.url, fetch: server.fetch })(Root);
+ * ```
+ */
+export const createFakeUpdateServer = ({
+  url = "https://updates.hot-updater.test",
+  delay = 0,
+}: FakeUpdateServerOptions = {}): FakeUpdateServer => {
+  let respond = (): { status: number; body: unknown } => ({
+    status: 200,
+    body: null,
+  });
+
+  const server: FakeUpdateServer = {
+    url,
+    requests: [],
+    fetch: async (requestUrl, { headers }) => {
+      server.requests.push({ url: requestUrl, headers });
+      await new Promise<void>((resolve) => setTimeout(resolve, delay));
+
+      const { status, body } = respond();
+      // Only the parts of `Response` the SDK reads, since Jest environments may not provide it
+      return {
+        status,
+        statusText: "",
+        json: async () => body,
+      } as Response;
+    },
+    respondWith: (updateInfo) => {
+      respond = () => ({ status: 200, body: updateInfo });
+    },
+    respondWithStatus: (status, body = null) => {
+      respond = () => ({ status, body });
+    },
+    failWithNetworkError: () => {
+      respond = () => {
+        throw new TypeError("Network request failed");
+      };
+    },
+  };
+
+  return server;
+};
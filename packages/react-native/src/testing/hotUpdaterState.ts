@@ -0,0 +1,130 @@
+import type { AppUpdateInfo } from "@hot-updater/core";
+import { resetDownloadedBundleId } from "../downloadUpdate";
+import { HotUpdaterError } from "../error";
+import {
+  type HotUpdaterState,
+  type HotUpdaterStatus,
+  hotUpdaterStore,
+} from "../store";
+
+const initialState: HotUpdaterState = {
+  status: "IDLE",
+  progress: 0,
+  isBundleUpdated: false,
+  updateInfo: null,
+  error: null,
+  lastCheckedAt: null,
+};
+
+/**
+ * Creates the update info of a bundle update, with `overrides` applied.
+ */
+export const createUpdateInfo = (
+  overrides: Partial<AppUpdateInfo> = {},
+): AppUpdateInfo => ({
+  id: "0195a408-8f13-7d9b-8df4-123456789abc",
+  shouldForceUpdate: false,
+  message: null,
+  status: "UPDATE",
+  fileUrl: "https://updates.hot-updater.test/bundle.zip",
+  ...overrides,
+});
+
+/**
+ * Puts `hotUpdaterStore` into `status`, with the progress, update info and error that come with it.
+ * Lets components reading `useHotUpdaterStore` render every state without running an update.
+ *
+ * @example
+ * ```tsx
+ * setHotUpdaterStatus("DOWNLOADING", { progress: 0.5 });
+ * render(<UpdateBanner />);
+ * expect(screen.getByText("Downloading 50%")).toBeOnTheScreen();
+ * ```
+ */
+export const setHotUpdaterStatus = (
+  status: HotUpdaterStatus,
+  state: Partial<Omit<HotUpdaterState, "status">> = {},
+) => {
+  const defaults: Record<HotUpdaterStatus, Partial<HotUpdaterState>> = {
+    IDLE: {},
+    CHECKING: {},
+    UP_TO_DATE: { lastCheckedAt: Date.now() },
+    UPDATE_AVAILABLE: {
+      updateInfo: createUpdateInfo(),
+      lastCheckedAt: Date.now(),
+    },
+    NATIVE_UPDATE_REQUIRED: {
+      updateInfo: createUpdateInfo({
+        status: "NATIVE_UPDATE_REQUIRED",
+        fileUrl: null,
+        storeUrl: null,
+      }),
+      lastCheckedAt: Date.now(),
+    },
+    DOWNLOADING: { updateInfo: createUpdateInfo() },
+    READY_TO_APPLY: {
+      progress: 1,
+      isBundleUpdated: true,
+      updateInfo: createUpdateInfo(),
+    },
+    ERROR: {
+      error: new HotUpdaterError("NETWORK_ERROR", "Network request failed"),
+      lastCheckedAt: Date.now(),
+    },
+  };
+
+  hotUpdaterStore.setState({
+    ...initialState,
+    ...defaults[status],
+    ...state,
+    status,
+  });
+};
+
+/**
+ * Resolves once `hotUpdaterStore` reaches `status`.
+ *
+ * @throws {Error} When `status` is not reached within `timeout` milliseconds
+ */
+export const waitForHotUpdaterStatus = (
+  status: HotUpdaterStatus,
+  { timeout = 1000 }: { timeout?: number } = {},
+) =>
+  new Promise<HotUpdaterState>((resolve, reject) => {
+    if (hotUpdaterStore.getSnapshot().status === status) {
+      resolve(hotUpdaterStore.getSnapshot());
+      return;
+    }
+
+    const timeoutId = setTimeout(() => {
+      unsubscribe();
+      reject(
+        new Error(
+          `Expected status ${status}, but it is ${hotUpdaterStore.getSnapshot().status}`,
+        ),
+      );
+    }, timeout);
+    const unsubscribe = hotUpdaterStore.subscribe(() => {
+      const state = hotUpdaterStore.getSnapshot();
+      if (state.status === status) {
+        clearTimeout(timeoutId);
+        unsubscribe();
+        resolve(state);
+      }
+    });
+  });
+
+/**
+ * Forgets the state and the downloaded bundle of previous tests.
+ *
+ * @example
+ * ```ts
+ * afterEach(() => {
+ *   resetHotUpdater();
+ * });
+ * ```
+ */
+export const resetHotUpdater = () => {
+  resetDownloadedBundleId();
+  hotUpdaterStore.setState(initialState);
+};
@@ -0,0 +1,62 @@
+/**
+ * Utilities to test the update flow of an app with Jest and React Native Testing Library.
+ *
+ * Importing this entry installs a mock native module, so it must be imported before
+ * `@hot-updater/react-native`, e.g. in a Jest setup file. Point `HotUpdater.wrap` or `useHotUpdater`
+ * at a fake update server to run the update flow.
+ *
+ * @example
+ * ```tsx
+ * import {
+ *   createFakeUpdateServer,
+ *   createUpdateInfo,
+ *   mockNativeModule,
+ *   resetHotUpdater,
+ *   waitForHotUpdaterStatus,
+ * } from "@hot-updater/react-native/testing";
+ * import { HotUpdater } from "@hot-updater/react-native";
+ *
+ * beforeEach(() => {
+ *   mockNativeModule({ constants: { APP_VERSION: "1.0.0" } });
+ * });
+ *
+ * afterEach(() => {
+ *   resetHotUpdater();
+ * });
+ *
+ * it("shows the app once a force update is downloaded", async () => {
+ *   const server = createFakeUpdateServer();
+ *   server.respondWith(createUpdateInfo({ shouldForceUpdate: true }));
+ *
+ *   const App = HotUpdater.wrap({
+ *     source: server.url,
+ *     fetch: server.fetch,
+ *     reloadOnForceUpdate: false,
+ *     fallbackComponent: () => <Text>Updating</Text>,
+ *   })(Root);
+ *   render(<App />);
+ *
+ *   await act(() => waitForHotUpdaterStatus("READY_TO_APPLY"));
+ *   expect(await screen.findByText("Home")).toBeOnTheScreen();
+ * });
+ * ```
+ */
+
+export {
+  mockNativeModule,
+  type MockDownloadOptions,
+  type MockNativeConstants,
+  type MockNativeModule,
+  type MockNativeModuleOptions,
+} from "./mockNativeModule";
+export {
+  createFakeUpdateServer,
+  type FakeUpdateServer,
+  type FakeUpdateServerOptions,
+} from "./createFakeUpdateServer";
+export {
+  createUpdateInfo,
+  resetHotUpdater,
+  setHotUpdaterStatus,
+  waitForHotUpdaterStatus,
+} from "./hotUpdaterState";
@@ -0,0 +1,97 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  addListener,
+  getAppVersion,
+  getChannel,
+  getFingerprintHash,
+  reload,
+  setChannel,
+  updateBundle,
+} from "../native";
+import { mockNativeModule } from "./mockNativeModule";
+
+vi.mock("react-native", () => ({
+  NativeModules: {},
+  NativeEventEmitter: class {
+    addListener() {
+      return { remove: () => {} };
+    }
+  },
+  Platform: { OS: "ios", select: () => "" },
+}));
+
+describe("mockNativeModule", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should serve its constants to the SDK", () => {
+    mockNativeModule({ constants: { APP_VERSION: "2.0.0", CHANNEL: "beta" } });
+
+    expect(getAppVersion()).toBe("2.0.0");
+    expect(getChannel()).toBe("beta");
+    expect(getFingerprintHash()).toBeNull();
+  });
+
+  it("should apply changes to the constants on the next read", async () => {
+    const nativeModule = mockNativeModule();
+
+    nativeModule.constants.FINGERPRINT_HASH = "fingerprint";
+    await setChannel("beta");
+
+    expect(getFingerprintHash()).toBe("fingerprint");
+    expect(getChannel()).toBe("beta");
+    expect(nativeModule.constants.CHANNEL).toBe("beta");
+  });
+
+  it("should record downloads and report their progress", async () => {
+    const nativeModule = mockNativeModule({ download: { progress: [0.5, 1] } });
+    const onProgress = vi.fn();
+    const removeListener = addListener("onProgress", onProgress);
+
+    await expect(updateBundle("bundle-id", "https://zip.test")).resolves.toBe(
+      true,
+    );
+    removeListener();
+
+    expect(nativeModule.downloads).toEqual([
+      { bundleId: "bundle-id", zipUrl: "https://zip.test" },
+    ]);
+    expect(onProgress.mock.calls).toEqual([
+      [{ progress: 0.5 }],
+      [{ progress: 1 }],
+    ]);
+  });
+
+  it("should fail downloads as configured", async () => {
+    const nativeModule = mockNativeModule({ download: { success: false } });
+    await expect(updateBundle("bundle-id", null)).resolves.toBe(false);
+
+    const error = new Error("disk full");
+    nativeModule.download = { error };
+    await expect(updateBundle("bundle-id", null)).rejects.toBe(error);
+  });
+
+  it("should count reloads", () => {
+    vi.stubGlobal("requestAnimationFrame", (callback: () => void) =>
+      callback(),
+    );
+    const nativeModule = mockNativeModule();
+
+    reload();
+    reload();
+
+    expect(nativeModule.reloadCount).toBe(2);
+  });
+
+  it("should replace the mock of an earlier call", async () => {
+    const first = mockNativeModule();
+    const second = mockNativeModule({ constants: { APP_VERSION: "3.0.0" } });
+
+    await updateBundle("bundle-id", null);
+
+    expect(getAppVersion()).toBe("3.0.0");
+    expect(first.downloads).toEqual([]);
+    expect(second.downloads).toHaveLength(1);
+  });
+});
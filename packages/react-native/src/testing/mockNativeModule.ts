@@ -0,0 +1,129 @@
+import { NativeModules } from "react-native";
+import { setSkippedInDev } from "../checkForUpdate";
+import { type HotUpdaterNativeModule, emitEvent } from "../native";
+
+export interface MockNativeConstants {
+  APP_VERSION: string | null;
+  MIN_BUNDLE_ID: string;
+  CHANNEL: string | null;
+  DEVICE_ID: string | null;
+  FINGERPRINT_HASH: string | null;
+}
+
+export interface MockDownloadOptions {
+  /**
+   * Progress values reported to `onProgress` while a bundle downloads.
+   * @default [0.25, 0.5, 0.75, 1]
+   */
+  progress?: number[];
+  /**
+   * Milliseconds between two progress values.
+   * @default 0
+   */
+  delay?: number;
+  /**
+   * Whether downloads succeed. A failed download resolves with `false`, or rejects with `error` when set.
+   * @default true
+   */
+  success?: boolean;
+  error?: Error;
+}
+
+export interface MockNativeModuleOptions {
+  constants?: Partial<MockNativeConstants>;
+  download?: MockDownloadOptions;
+}
+
+export interface MockNativeModule {
+  /**
+   * The constants returned by `getConstants()`. Changes apply to the next read.
+   */
+  constants: MockNativeConstants;
+  /**
+   * How the next downloads behave.
+   */
+  download: MockDownloadOptions;
+  /**
+   * Every `updateBundle` call, oldest first.
+   */
+  downloads: { bundleId: string; zipUrl: string | null }[];
+  /**
+   * How many times the app was reloaded.
+   */
+  reloadCount: number;
+}
+
+const wait = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Installs a native module that runs in Jest in place of the real one, replacing the mock of an earlier
+ * call, and lets update checks run although `__DEV__` is `true` there.
+ *
+ * Downloads report their progress through `onProgress` and settle as configured in `download`.
+ *
+ * @example
+ * ```ts
+ * const nativeModule = mockNativeModule({
+ *   constants: { APP_VERSION: "1.0.0", CHANNEL: "beta" },
+ *   download: { success: false },
+ * });
+ * ```
+ */
+export const mockNativeModule = ({
+  constants,
+  download = {},
+}: MockNativeModuleOptions = {}): MockNativeModule => {
+  const mock: MockNativeModule = {
+    constants: {
+      APP_VERSION: "1.0.0",
+      MIN_BUNDLE_ID: "00000000-0000-0000-0000-000000000000",
+      CHANNEL: "production",
+      DEVICE_ID: null,
+      FINGERPRINT_HASH: null,
+      ...constants,
+    },
+    download,
+    downloads: [],
+    reloadCount: 0,
+  };
+
+  const nativeModule: HotUpdaterNativeModule = {
+    getConstants: () => ({ ...mock.constants }),
+    getAppVersion: async () => mock.constants.APP_VERSION,
+    setChannel: async (channel: string) => {
+      mock.constants.CHANNEL = channel;
+    },
+    updateBundle: async (bundleId: string, zipUrl: string | null) => {
+      mock.downloads.push({ bundleId, zipUrl });
+
+      const {
+        progress = [0.25, 0.5, 0.75, 1],
+        delay = 0,
+        success = true,
+        error,
+      } = mock.download;
+      for (const value of progress) {
+        await wait(delay);
+        emitEvent("onProgress", { progress: value });
+      }
+
+      if (error) {
+        throw error;
+      }
+      return success;
+    },
+    reload: () => {
+      mock.reloadCount++;
+    },
+    addListener: () => {},
+    removeListeners: () => {},
+  };
+  NativeModules.HotUpdater = nativeModule;
+  setSkippedInDev(false);
+
+  return mock;
+};
+
+// Installed on import, so the SDK imported after this entry finds a native module
+mockNativeModule();
@@ -0,0 +1,46 @@
+import type { AppUpdateInfo } from "@hot-updater/core";
+import { downloadUpdate } from "./downloadUpdate";
+import { type InstallMode, applyInstallMode } from "./installMode";
+
+export interface UpdateConsentOptions {
+  /**
+   * Called before an optional update (`shouldForceUpdate: false`) is downloaded.
+   * Resolve with `false` to skip the update. Force updates are always downloaded.
+   */
+  shouldDownloadUpdate?: (
+    updateInfo: AppUpdateInfo,
+  ) => boolean | Promise<boolean>;
+  /**
+   * Called once an optional update is downloaded. Resolve with `true` to reload into it right away,
+   * or `false` to keep it for the next restart. When set, it replaces `installMode`.
+   */
+  shouldApplyUpdate?: (updateInfo: AppUpdateInfo) => boolean | Promise<boolean>;
+}
+
+/**
+ * Downloads and applies an optional update, asking for consent first when the callbacks are set.
+ *
+ * @returns {Promise<boolean>} Whether the bundle was downloaded
+ */
+export const installOptionalUpdate = async (
+  updateInfo: AppUpdateInfo,
+  { shouldDownloadUpdate, shouldApplyUpdate }: UpdateConsentOptions,
+  installMode: InstallMode,
+  minimumBackgroundDuration?: number,
+) => {
+  if (shouldDownloadUpdate && !(await shouldDownloadUpdate(updateInfo))) {
+    return false;
+  }
+
+  await downloadUpdate(updateInfo);
+
+  if (shouldApplyUpdate) {
+    applyInstallMode(
+      (await shouldApplyUpdate(updateInfo)) ? "IMMEDIATE" : "ON_NEXT_RESTART",
+    );
+    return true;
+  }
+
+  applyInstallMode(installMode, minimumBackgroundDuration);
+  return true;
+};
@@ -0,0 +1,55 @@
+import type { CheckForUpdateOptions } from "./checkForUpdate";
+import { checkForUpdate } from "./checkForUpdate";
+import { applyDownloadedUpdate, downloadUpdate } from "./downloadUpdate";
+import { useEventCallback } from "./hooks/useEventCallback";
+import { hotUpdaterStore, useHotUpdaterStore } from "./store";
+
+/**
+ * Returns the update state along with actions to drive the update flow by hand.
+ *
+ * - `check()` asks the update server for an update.
+ * - `download()` downloads the update found by the last check. Resolves with `false` when there is nothing to download.
+ * - `apply()` reloads the app into the downloaded bundle. Returns `false` when no bundle is ready.
+ *
+ * @example
+ * ```tsx
+ * const { status, progress, updateInfo, check, download, apply } = useHotUpdater({
+ *   source: "<your-update-server-url>",
+ * });
+ *
+ * useEffect(() => {
+ *   check();
+ * }, []);
+ *
+ * if (status === "UPDATE_AVAILABLE") {
+ *   return <Button title={`Download ${updateInfo?.message}`} onPress={download} />;
+ * }
+ * if (status === "READY_TO_APPLY") {
+ *   return <Button title="Restart" onPress={apply} />;
+ * }
+ * ```
+ */
+export const useHotUpdater = (options: CheckForUpdateOptions) => {
+  const state = useHotUpdaterStore();
+
+  const check = useEventCallback(() => checkForUpdate(options));
+
+  const download = useEventCallback(async () => {
+    const { updateInfo } = hotUpdaterStore.getSnapshot();
+    if (!updateInfo || updateInfo.status === "NATIVE_UPDATE_REQUIRED") {
+      return false;
+    }
+    await downloadUpdate(updateInfo);
+    return true;
+  });
+
+  const apply = useEventCallback(() => {
+    if (hotUpdaterStore.getSnapshot().status !== "READY_TO_APPLY") {
+      return false;
+    }
+    applyDownloadedUpdate();
+    return true;
+  });
+
+  return { ...state, check, download, apply };
+};
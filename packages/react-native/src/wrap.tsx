@@ -1,18 +1,46 @@
+import type { AppUpdateInfo, ReleaseNote } from "@hot-updater/core";
 import React from "react";
-import { useEffect, useLayoutEffect, useState } from "react";
+import { useEffect, useLayoutEffect, useRef, useState } from "react";
+import type { UpdatePromptProps } from "./UpdatePrompt";
 import { type CheckForUpdateOptions, checkForUpdate } from "./checkForUpdate";
-import { HotUpdaterError } from "./error";
+import { downloadUpdate, getDownloadedBundleId } from "./downloadUpdate";
+import { type HotUpdaterError, toHotUpdaterError } from "./error";
 import { useEventCallback } from "./hooks/useEventCallback";
-import { getBundleId, reload, updateBundle } from "./native";
+import {
+  type InstallModeOptions,
+  applyInstallMode,
+  resolveInstallMode,
+} from "./installMode";
+import { getBundleId } from "./native";
 import type { RunUpdateProcessResponse } from "./runUpdateProcess";
+import {
+  type UpdateCheckScheduleOptions,
+  scheduleUpdateChecks,
+} from "./scheduleUpdateChecks";
 import { useHotUpdaterStore } from "./store";
+import {
+  type UpdateConsentOptions,
+  installOptionalUpdate,
+} from "./updateConsent";
 
 type UpdateStatus =
   | "CHECK_FOR_UPDATE"
   | "UPDATING"
-  | "UPDATE_PROCESS_COMPLETED";
+  | "UPDATE_PROCESS_COMPLETED"
+  | "NATIVE_UPDATE_REQUIRED";
 
-export interface HotUpdaterOptions extends CheckForUpdateOptions {
+interface UserPrompt {
+  type: UpdatePromptProps["type"];
+  updateInfo: AppUpdateInfo;
+  accepted: Promise<boolean>;
+  resolve: (accepted: boolean) => void;
+}
+
+export interface HotUpdaterOptions
+  extends CheckForUpdateOptions,
+    InstallModeOptions,
+    UpdateCheckScheduleOptions,
+    UpdateConsentOptions {
   /**
    * Component to show while downloading a new bundle update.
    *
@@ -32,19 +60,66 @@ export interface HotUpdaterOptions extends CheckForUpdateOptions {
    * })(App)
    * ```
    *
+   * With `includeReleaseNotes`, `releaseNotes` lists the messages of every bundle the update includes, oldest first.
+   *
    * If not defined, the bundle will download in the background without blocking the screen.
    */
   fallbackComponent?: React.FC<{
-    status: Exclude<UpdateStatus, "UPDATE_PROCESS_COMPLETED">;
+    status: Exclude<
+      UpdateStatus,
+      "UPDATE_PROCESS_COMPLETED" | "NATIVE_UPDATE_REQUIRED"
+    >;
     progress: number;
     message: string | null;
+    releaseNotes: ReleaseNote[] | null;
+  }>;
+  /**
+   * Component to show when the installed app is older than the minimum app version of its channel.
+   *
+   * No bundle is downloaded in this case. The component blocks access to the entry point
+   * and should ask the user to update the app from the store.
+   *
+   * ```tsx
+   * HotUpdater.wrap({
+   *   source: "<update-server-url>",
+   *   nativeUpdateRequiredComponent: ({ storeUrl }) => (
+   *     <View style={styles.container}>
+   *       <Text style={styles.text}>Please update the app to continue.</Text>
+   *       {storeUrl && (
+   *         <Button title="Update" onPress={() => Linking.openURL(storeUrl)} />
+   *       )}
+   *     </View>
+   *   )
+   * })(App)
+   * ```
+   *
+   * If not defined, the app keeps running its current bundle.
+   */
+  nativeUpdateRequiredComponent?: React.FC<{
+    storeUrl: string | null;
+    message: string | null;
   }>;
+  /**
+   * Component that asks the user before an optional update is downloaded and before the app reloads into it.
+   * Used for `shouldDownloadUpdate` and `shouldApplyUpdate` when they are not defined.
+   *
+   * ```tsx
+   * import { HotUpdater, UpdatePrompt } from "@hot-updater/react-native";
+   *
+   * HotUpdater.wrap({
+   *   source: "<update-server-url>",
+   *   updatePromptComponent: UpdatePrompt,
+   * })(App)
+   * ```
+   */
+  updatePromptComponent?: React.FC<UpdatePromptProps>;
   onError?: (error: HotUpdaterError) => void;
   onProgress?: (progress: number) => void;
   /**
    * When a force update exists, the app will automatically reload.
    * If `false`, When a force update exists, the app will not reload. `shouldForceUpdate` will be returned as `true` in `onUpdateProcessCompleted`.
    * If `true`, When a force update exists, the app will automatically reload.
+   * Ignored when `mandatoryInstallMode` is set.
    * @default true
    */
   reloadOnForceUpdate?: boolean;
@@ -59,16 +134,105 @@ export interface HotUpdaterOptions extends CheckForUpdateOptions {
 export function wrap<P extends React.JSX.IntrinsicAttributes = object>(
   options: HotUpdaterOptions,
 ): (WrappedComponent: React.ComponentType<P>) => React.ComponentType<P> {
-  const { reloadOnForceUpdate = true, ...restOptions } = options;
+  const {
+    reloadOnForceUpdate = true,
+    installMode,
+    mandatoryInstallMode,
+    minimumBackgroundDuration,
+    checkOnForeground,
+    checkInterval,
+    minimumCheckInterval,
+    shouldDownloadUpdate,
+    shouldApplyUpdate,
+    ...restOptions
+  } = options;
 
   return (WrappedComponent: React.ComponentType<P>) => {
     const HotUpdaterHOC: React.FC<P> = (props: P) => {
       const progress = useHotUpdaterStore((state) => state.progress);
 
       const [message, setMessage] = useState<string | null>(null);
+      const [storeUrl, setStoreUrl] = useState<string | null>(null);
+      const [releaseNotes, setReleaseNotes] = useState<ReleaseNote[] | null>(
+        null,
+      );
       const [updateStatus, setUpdateStatus] =
         useState<UpdateStatus>("CHECK_FOR_UPDATE");
+      const [prompt, setPrompt] = useState<UserPrompt | null>(null);
+      const pendingPrompt = useRef<UserPrompt | null>(null);
+      // Declined updates are not offered again by later checks
+      const declinedBundleIds = useRef(new Set<string>());
+
+      const askUser =
+        (type: UpdatePromptProps["type"]) => (updateInfo: AppUpdateInfo) => {
+          const currentPrompt = pendingPrompt.current;
+          if (
+            currentPrompt?.type === type &&
+            currentPrompt.updateInfo.id === updateInfo.id
+          ) {
+            return currentPrompt.accepted;
+          }
+          // A later check asking about another bundle declines the unanswered prompt
+          currentPrompt?.resolve(false);
+
+          let resolveAccepted: (accepted: boolean) => void = () => {};
+          const accepted = new Promise<boolean>((resolve) => {
+            resolveAccepted = resolve;
+          });
+          const nextPrompt: UserPrompt = {
+            type,
+            updateInfo,
+            accepted,
+            resolve: (isAccepted) => {
+              if (pendingPrompt.current === nextPrompt) {
+                pendingPrompt.current = null;
+                setPrompt(null);
+              }
+              resolveAccepted(isAccepted);
+            },
+          };
+          pendingPrompt.current = nextPrompt;
+          setPrompt(nextPrompt);
+          return accepted;
+        };
+
+      const consentOptions: UpdateConsentOptions =
+        restOptions.updatePromptComponent
+          ? {
+              shouldDownloadUpdate: shouldDownloadUpdate ?? askUser("DOWNLOAD"),
+              shouldApplyUpdate: shouldApplyUpdate ?? askUser("APPLY"),
+            }
+          : { shouldDownloadUpdate, shouldApplyUpdate };
+
+      // The initial check installs in the background, outside of the scheduled checks,
+      // so a later check that finds the same bundle waits for that install
+      const pendingInstalls = useRef(new Map<string, Promise<void>>());
 
+      const installUpdateInBackground = useEventCallback(
+        (updateInfo: AppUpdateInfo) => {
+          const pendingInstall = pendingInstalls.current.get(updateInfo.id);
+          if (pendingInstall) {
+            return pendingInstall;
+          }
+
+          const install = installOptionalUpdate(
+            updateInfo,
+            consentOptions,
+            resolveInstallMode(false, { installMode }),
+            minimumBackgroundDuration,
+          )
+            .then((isDownloaded) => {
+              if (!isDownloaded) {
+                declinedBundleIds.current.add(updateInfo.id);
+              }
+            })
+            .finally(() => {
+              pendingInstalls.current.delete(updateInfo.id);
+            });
+          pendingInstalls.current.set(updateInfo.id, install);
+          return install;
+        },
+      );
       const initHotUpdater = useEventCallback(async () => {
         try {
           setUpdateStatus("CHECK_FOR_UPDATE");
@@ -77,9 +241,14 @@ export function wrap<P extends React.JSX.IntrinsicAttributes = object>(
             source: restOptions.source,
             requestHeaders: restOptions.requestHeaders,
             onError: restOptions.onError,
+            includeReleaseNotes: restOptions.includeReleaseNotes,
+            requestTimeout: restOptions.requestTimeout,
+            retry: restOptions.retry,
+            fetch: restOptions.fetch,
           });
 
           setMessage(updateInfo?.message ?? null);
+          setReleaseNotes(updateInfo?.releaseNotes ?? null);
 
           if (!updateInfo) {
             restOptions.onUpdateProcessCompleted?.({
@@ -92,34 +261,42 @@ export function wrap<P extends React.JSX.IntrinsicAttributes = object>(
             return;
           }
 
-          if (updateInfo.shouldForceUpdate === false) {
-            void updateBundle(updateInfo.id, updateInfo.fileUrl);
+          if (updateInfo.status === "NATIVE_UPDATE_REQUIRED") {
+            setStoreUrl(updateInfo.storeUrl ?? null);
             restOptions.onUpdateProcessCompleted?.({
               id: updateInfo.id,
               status: updateInfo.status,
               shouldForceUpdate: updateInfo.shouldForceUpdate,
               message: updateInfo.message,
+              storeUrl: updateInfo.storeUrl ?? null,
             });
-            setUpdateStatus("UPDATE_PROCESS_COMPLETED");
+            setUpdateStatus("NATIVE_UPDATE_REQUIRED");
             return;
           }
 
-          // Force Update Scenario
-          setUpdateStatus("UPDATING");
-          const isSuccess = await updateBundle(
-            updateInfo.id,
-            updateInfo.fileUrl,
+          const updateInstallMode = resolveInstallMode(
+            updateInfo.shouldForceUpdate,
+            { installMode, mandatoryInstallMode, reloadOnForceUpdate },
           );
 
-          if (!isSuccess) {
-            throw new Error(
-              "New update was found but failed to download the bundle.",
+          if (updateInfo.shouldForceUpdate === false) {
+            installUpdateInBackground(updateInfo).catch((error) =>
+              restOptions.onError?.(toHotUpdaterError(error)),
             );
+            restOptions.onUpdateProcessCompleted?.({
+              id: updateInfo.id,
+              status: updateInfo.status,
+              shouldForceUpdate: updateInfo.shouldForceUpdate,
+              message: updateInfo.message,
+            });
+            setUpdateStatus("UPDATE_PROCESS_COMPLETED");
+            return;
           }
 
-          if (reloadOnForceUpdate) {
-            reload();
-          }
+          // Force Update Scenario
+          setUpdateStatus("UPDATING");
+          await downloadUpdate(updateInfo);
+          applyInstallMode(updateInstallMode, minimumBackgroundDuration);
 
           restOptions.onUpdateProcessCompleted?.({
             id: updateInfo.id,
@@ -130,11 +307,76 @@ export function wrap<P extends React.JSX.IntrinsicAttributes = object>(
 
           setUpdateStatus("UPDATE_PROCESS_COMPLETED");
         } catch (error) {
-          if (error instanceof HotUpdaterError) {
-            restOptions.onError?.(error);
-          }
+          restOptions.onError?.(toHotUpdaterError(error));
           setUpdateStatus("UPDATE_PROCESS_COMPLETED");
-          throw error;
+        }
+      });
+
+      // Later checks run behind the app, so only a native update required replaces the screen
+      const recheckForUpdate = useEventCallback(async () => {
+        try {
+          const updateInfo = await checkForUpdate({
+            source: restOptions.source,
+            requestHeaders: restOptions.requestHeaders,
+            onError: restOptions.onError,
+            includeReleaseNotes: restOptions.includeReleaseNotes,
+            requestTimeout: restOptions.requestTimeout,
+            retry: restOptions.retry,
+            fetch: restOptions.fetch,
+          });
+
+          if (!updateInfo) {
+            restOptions.onUpdateProcessCompleted?.({
+              status: "UP_TO_DATE",
+              shouldForceUpdate: false,
+              message: null,
+              id: getBundleId(),
+            });
+            return;
+          }
+
+          if (updateInfo.status === "NATIVE_UPDATE_REQUIRED") {
+            setMessage(updateInfo.message);
+            setStoreUrl(updateInfo.storeUrl ?? null);
+            restOptions.onUpdateProcessCompleted?.({
+              id: updateInfo.id,
+              status: updateInfo.status,
+              shouldForceUpdate: updateInfo.shouldForceUpdate,
+              message: updateInfo.message,
+              storeUrl: updateInfo.storeUrl ?? null,
+            });
+            setUpdateStatus("NATIVE_UPDATE_REQUIRED");
+            return;
+          }
+
+          if (
+            updateInfo.id === getDownloadedBundleId() ||
+            declinedBundleIds.current.has(updateInfo.id)
+          ) {
+            return;
+          }
+
+          if (updateInfo.shouldForceUpdate) {
+            await downloadUpdate(updateInfo);
+            applyInstallMode(
+              resolveInstallMode(true, {
+                mandatoryInstallMode,
+                reloadOnForceUpdate,
+              }),
+              minimumBackgroundDuration,
+            );
+          } else {
+            await installUpdateInBackground(updateInfo);
+          }
+
+          restOptions.onUpdateProcessCompleted?.({
+            id: updateInfo.id,
+            status: updateInfo.status,
+            shouldForceUpdate: updateInfo.shouldForceUpdate,
+            message: updateInfo.message,
+          });
+        } catch (error) {
+          restOptions.onError?.(toHotUpdaterError(error));
         }
       });
 
@@ -146,6 +388,23 @@ export function wrap<P extends React.JSX.IntrinsicAttributes = object>(
         initHotUpdater();
       }, []);
 
+      useEffect(() => {
+        return scheduleUpdateChecks(recheckForUpdate, {
+          checkOnForeground,
+          checkInterval,
+          minimumCheckInterval,
+        });
+      }, []);
+
+      if (updateStatus === "NATIVE_UPDATE_REQUIRED") {
+        const NativeUpdateRequired = restOptions.nativeUpdateRequiredComponent;
+        return NativeUpdateRequired ? (
+          <NativeUpdateRequired storeUrl={storeUrl} message={message} />
+        ) : (
+          <WrappedComponent {...props} />
+        );
+      }
+
       if (
         restOptions.fallbackComponent &&
         updateStatus !== "UPDATE_PROCESS_COMPLETED"
@@ -156,11 +415,25 @@ export function wrap<P extends React.JSX.IntrinsicAttributes = object>(
             progress={progress}
             status={updateStatus}
             message={message}
+            releaseNotes={releaseNotes}
           />
         );
       }
 
-      return <WrappedComponent {...props} />;
+      const UpdatePromptComponent = restOptions.updatePromptComponent;
+      return (
+        <>
+          <WrappedComponent {...props} />
+          {UpdatePromptComponent && prompt ? (
+            <UpdatePromptComponent
+              type={prompt.type}
+              updateInfo={prompt.updateInfo}
+              onAccept={() => prompt.resolve(true)}
+              onDecline={() => prompt.resolve(false)}
+            />
+          ) : null}
+        </>
+      );
     };
 
     return HotUpdaterHOC as React.ComponentType<P>;
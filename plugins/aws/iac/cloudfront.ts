@@ -203,13 +203,16 @@ export class CloudFrontManager {
               QueryString: true,
               Cookies: { Forward: "none" },
               Headers: {
-                Quantity: 5,
+                Quantity: 8,
                 Items: [
                   "x-bundle-id",
                   "x-app-version",
                   "x-app-platform",
                   "x-min-bundle-id",
                   "x-channel",
+                  "x-device-id",
+                  "x-fingerprint-hash",
+                  "x-include-release-notes",
                 ],
               },
             },
@@ -309,13 +312,16 @@ export class CloudFrontManager {
               QueryString: true,
               Cookies: { Forward: "none" },
               Headers: {
-                Quantity: 5,
+                Quantity: 8,
                 Items: [
                   "x-bundle-id",
                   "x-app-version",
                   "x-app-platform",
                   "x-min-bundle-id",
                   "x-channel",
+                  "x-device-id",
+                  "x-fingerprint-hash",
+                  "x-include-release-notes",
                 ],
               },
             },
@@ -3,6 +3,7 @@ import {
   type GetBundlesArgs,
   NIL_UUID,
   type UpdateInfo,
+  type UpdateResolutionContext,
 } from "@hot-updater/core";
 import { setupGetUpdateInfoTestSuite } from "@hot-updater/core/test-utils";
 import { beforeEach, describe, vi } from "vitest";
@@ -22,36 +23,69 @@ const createGetUpdateInfo =
       platform,
       minBundleId = NIL_UUID,
       channel = "production",
+      deviceId,
+      fingerprintHash,
+      includeReleaseNotes,
     }: GetBundlesArgs,
+    {
+      deviceOverrides = [],
+      channelConfigs = [],
+      channelPlatformConfigs = [],
+    }: UpdateResolutionContext = {},
   ): Promise<UpdateInfo | null> => {
     const responses: Record<string, any> = {};
+    const setResponse = (path: string, data: unknown) => {
+      const url = new URL(baseUrl);
+      url.pathname = `/${path}`;
+      responses[url.toString()] = data;
+    };
 
     if (bundles.length > 0) {
-      const targetVersions = [
-        ...new Set(bundles.map((b) => b.targetAppVersion)),
-      ];
-      const targetVersionsPath = `${channel}/${platform}/target-app-versions.json`;
-      const targetVersionsUrl = new URL(baseUrl);
-      targetVersionsUrl.pathname = `/${targetVersionsPath}`;
-      responses[targetVersionsUrl.toString()] = targetVersions;
-
-      const bundlesByVersion: Record<string, Bundle[]> = {};
+      const bundlesByKey: Record<string, Bundle[]> = {};
+      const targetVersionsByChannel: Record<string, Set<string>> = {};
       for (const bundle of bundles) {
-        if (!bundlesByVersion[bundle.targetAppVersion]) {
-          bundlesByVersion[bundle.targetAppVersion] = [];
+        const key = `${bundle.channel}/${bundle.platform}/${bundle.targetAppVersion}/update.json`;
+        bundlesByKey[key] = [...(bundlesByKey[key] ?? []), bundle];
+
+        if (bundle.platform === platform) {
+          targetVersionsByChannel[bundle.channel] ??= new Set();
+          targetVersionsByChannel[bundle.channel].add(bundle.targetAppVersion);
         }
-        bundlesByVersion[bundle.targetAppVersion].push(bundle);
       }
-      for (const targetVersion of targetVersions) {
-        const updatePath = `${channel}/${platform}/${targetVersion}/update.json`;
-        const updateUrl = new URL(baseUrl);
-        updateUrl.pathname = `/${updatePath}`;
-        responses[updateUrl.toString()] = bundlesByVersion[targetVersion];
+      for (const [key, bundlesOfKey] of Object.entries(bundlesByKey)) {
+        setResponse(key, bundlesOfKey);
+      }
+      for (const [bundleChannel, targetVersions] of Object.entries(
+        targetVersionsByChannel,
+      )) {
+        setResponse(`${bundleChannel}/${platform}/target-app-versions.json`, [
+          ...targetVersions,
+        ]);
       }
     } else {
       responses["*"] = null;
     }
 
+    if (channelConfigs.length > 0) {
+      setResponse("channels.json", channelConfigs);
+    }
+
+    if (channelPlatformConfigs.length > 0) {
+      setResponse("channel-platforms.json", channelPlatformConfigs);
+    }
+
+    for (const deviceOverride of deviceOverrides) {
+      const assignedBundle = bundles.find(
+        (b) => b.id === deviceOverride.bundleId,
+      );
+      setResponse(`device-overrides/${deviceOverride.deviceId}.json`, {
+        ...deviceOverride,
+        _updateJsonKey: assignedBundle
+          ? `${assignedBundle.channel}/${assignedBundle.platform}/${assignedBundle.targetAppVersion}/update.json`
+          : undefined,
+      });
+    }
+
     const fetchMock = vi.fn(async (url: string) => {
       if (url in responses) {
         return {
@@ -81,6 +115,9 @@ const createGetUpdateInfo =
           appVersion,
           bundleId,
           platform,
+          deviceId,
+          fingerprintHash,
+          includeReleaseNotes,
         },
       );
     } finally {
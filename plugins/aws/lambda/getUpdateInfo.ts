@@ -1,15 +1,26 @@
 import { getSignedUrl } from "@aws-sdk/cloudfront-signer";
 import {
   type Bundle,
+  type ChannelConfig,
+  type ChannelPlatformConfig,
+  type DeviceOverride,
   type GetBundlesArgs,
   NIL_UUID,
   type UpdateInfo,
 } from "@hot-updater/core";
 import {
   filterCompatibleAppVersions,
+  getChannelChain,
+  getChannelMode,
   getUpdateInfo as getUpdateInfoJS,
+  resolveAssignedBundle,
+  resolveChannelMode,
 } from "@hot-updater/js";
 
+interface DeviceOverrideWithUpdateJsonKey extends DeviceOverride {
+  _updateJsonKey?: string;
+}
+
 const getCdnJson = async <T>({
   baseUrl,
   key,
@@ -61,26 +72,89 @@ export const getUpdateInfo = async (
     appVersion,
     bundleId,
     minBundleId = NIL_UUID,
-    channel = "production",
+    channel: requestedChannel = "production",
+    deviceId,
+    fingerprintHash,
+    includeReleaseNotes,
   }: GetBundlesArgs,
 ): Promise<UpdateInfo | null> => {
-  const targetAppVersions = await getCdnJson<string[]>({
-    baseUrl,
-    key: `${channel}/${platform}/target-app-versions.json`,
-    keyPairId,
-    privateKey,
-  });
+  const deviceOverride = deviceId
+    ? await getCdnJson<DeviceOverrideWithUpdateJsonKey>({
+        baseUrl,
+        key: `device-overrides/${deviceId}.json`,
+        keyPairId,
+        privateKey,
+      })
+    : null;
 
-  const matchingVersions = filterCompatibleAppVersions(
-    targetAppVersions ?? [],
-    appVersion,
+  const channel = deviceOverride?.channel ?? requestedChannel;
+
+  const [channelConfigs, channelPlatformConfigs] = await Promise.all([
+    getCdnJson<ChannelConfig[]>({
+      baseUrl,
+      key: "channels.json",
+      keyPairId,
+      privateKey,
+    }).then((data) => data ?? []),
+    getCdnJson<ChannelPlatformConfig[]>({
+      baseUrl,
+      key: "channel-platforms.json",
+      keyPairId,
+      privateKey,
+    }).then((data) => data ?? []),
+  ]);
+
+  const channelChain = getChannelChain(channel, channelConfigs);
+
+  const channelModeInfo = resolveChannelMode(
+    getChannelMode(channelChain, channelConfigs),
+    { bundleId, minBundleId },
+  );
+  if (channelModeInfo !== undefined) {
+    return channelModeInfo;
+  }
+
+  if (deviceOverride?.bundleId && deviceOverride._updateJsonKey) {
+    const assignedBundles = await getCdnJson<Bundle[]>({
+      baseUrl,
+      key: deviceOverride._updateJsonKey,
+      keyPairId,
+      privateKey,
+    });
+    const assignedUpdateInfo = resolveAssignedBundle(
+      assignedBundles?.find((b) => b.id === deviceOverride.bundleId),
+      { platform, bundleId, appVersion, minBundleId, fingerprintHash },
+    );
+    if (assignedUpdateInfo !== undefined) {
+      return assignedUpdateInfo;
+    }
+  }
+
+  // Bundles of every channel in the chain, e.g. app-acme -> production
+  const updateJsonKeys = await Promise.all(
+    channelChain.map(async (chainChannel) => {
+      const targetAppVersions = await getCdnJson<string[]>({
+        baseUrl,
+        key: `${chainChannel}/${platform}/target-app-versions.json`,
+        keyPairId,
+        privateKey,
+      });
+
+      return filterCompatibleAppVersions(
+        targetAppVersions ?? [],
+        appVersion,
+      ).map(
+        (targetAppVersion) =>
+          `${chainChannel}/${platform}/${targetAppVersion}/update.json`,
+      );
+    }),
   );
 
   const results = await Promise.allSettled(
-    matchingVersions.map((targetAppVersion) =>
+    updateJsonKeys.flat().map((key) =>
       getCdnJson({
         baseUrl,
-        key: `${channel}/${platform}/${targetAppVersion}/update.json`,
+        key,
         keyPairId,
         privateKey,
       }),
@@ -93,11 +167,18 @@ export const getUpdateInfo = async (
     )
     .flatMap((r) => r.value ?? []);
 
-  return getUpdateInfoJS(bundles, {
-    platform,
-    bundleId,
-    appVersion,
-    minBundleId,
-    channel,
-  });
+  return getUpdateInfoJS(
+    bundles,
+    {
+      platform,
+      bundleId,
+      appVersion,
+      minBundleId,
+      channel,
+      deviceId,
+      fingerprintHash,
+      includeReleaseNotes,
+    },
+    { channelConfigs, channelPlatformConfigs },
+  );
 };
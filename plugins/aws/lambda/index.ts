@@ -1,4 +1,4 @@
-import { NIL_UUID } from "@hot-updater/core";
+import { NIL_UUID, validateAppUpdateInfo } from "@hot-updater/core";
 import type { CloudFrontRequestHandler } from "aws-lambda";
 import { Hono } from "hono";
 import type { Callback, CloudFrontRequest } from "hono/lambda-edge";
@@ -37,6 +37,10 @@ app.get("/api/check-update", async (c) => {
     const appVersion = headers["x-app-version"]?.[0]?.value;
     const minBundleId = headers["x-min-bundle-id"]?.[0]?.value ?? NIL_UUID;
     const channel = headers["x-channel"]?.[0]?.value ?? "production";
+    const deviceId = headers["x-device-id"]?.[0]?.value;
+    const fingerprintHash = headers["x-fingerprint-hash"]?.[0]?.value;
+    const includeReleaseNotes =
+      headers["x-include-release-notes"]?.[0]?.value === "true";
 
     if (!bundleId || !appPlatform || !appVersion) {
       return c.json({ error: "Missing required headers." }, 400);
@@ -58,6 +62,9 @@ app.get("/api/check-update", async (c) => {
         appVersion,
         minBundleId,
         channel,
+        deviceId,
+        fingerprintHash,
+        includeReleaseNotes,
       },
     );
     if (!updateInfo) {
@@ -71,7 +78,11 @@ app.get("/api/check-update", async (c) => {
       privateKey: CLOUDFRONT_PRIVATE_KEY,
     });
 
-    return c.json(appUpdateInfo);
+    const validation = validateAppUpdateInfo(appUpdateInfo);
+    if (!validation.success) {
+      return c.json({ error: "Invalid update info" }, 500);
+    }
+    return c.json(validation.data);
   } catch {
     return c.json({ error: "Internal Server Error" }, 500);
   }
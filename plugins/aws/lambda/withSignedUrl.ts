@@ -11,7 +11,7 @@ import { NIL_UUID } from "@hot-updater/core";
  * @param {string} options.privateKey - CloudFront private key
  * @returns {Promise<T|null>} - Update response object with fileUrl or null
  */
-export const withSignedUrl = async <T extends { id: string }>({
+export const withSignedUrl = async <T extends { id: string; status?: string }>({
   data,
   reqUrl,
   keyPairId,
@@ -26,7 +26,8 @@ export const withSignedUrl = async <T extends { id: string }>({
     return null;
   }
 
-  if (data.id === NIL_UUID) {
+  // Nothing to download: the app resets to the built-in bundle or must be updated from the store
+  if (data.id === NIL_UUID || data.status === "NATIVE_UPDATE_REQUIRED") {
     return { ...data, fileUrl: null };
   }
 
@@ -877,4 +877,174 @@ describe("s3Database plugin", () => {
 
     expect(cloudfrontInvalidations.length).toBe(0);
   });
+
+  it("should store a device override with the update.json key of its bundle", async () => {
+    const bundle = createBundleJson(
+      "qa",
+      "ios",
+      "1.0.0",
+      "00000000-0000-0000-0000-000000000001",
+    );
+    await plugin.appendBundle(bundle);
+    await plugin.commitBundle();
+    cloudfrontInvalidations = [];
+
+    await plugin.setDeviceOverride?.({
+      deviceId: "device-a",
+      channel: null,
+      bundleId: "00000000-0000-0000-0000-000000000001",
+    });
+
+    expect(JSON.parse(fakeStore["device-overrides/device-a.json"])).toEqual({
+      deviceId: "device-a",
+      channel: null,
+      bundleId: "00000000-0000-0000-0000-000000000001",
+      _updateJsonKey: "qa/ios/1.0.0/update.json",
+    });
+    expect(cloudfrontInvalidations.flatMap((inv) => inv.paths)).toEqual([
+      "/device-overrides/device-a.json",
+    ]);
+    expect(await plugin.getDeviceOverrides?.()).toStrictEqual([
+      {
+        deviceId: "device-a",
+        channel: null,
+        bundleId: "00000000-0000-0000-0000-000000000001",
+      },
+    ]);
+  });
+
+  it("should move a device override along with its bundle", async () => {
+    const bundle = createBundleJson(
+      "qa",
+      "ios",
+      "1.0.0",
+      "00000000-0000-0000-0000-000000000001",
+    );
+    await plugin.appendBundle(bundle);
+    await plugin.commitBundle();
+    await plugin.setDeviceOverride?.({
+      deviceId: "device-a",
+      channel: null,
+      bundleId: "00000000-0000-0000-0000-000000000001",
+    });
+    await plugin.setDeviceOverride?.({
+      deviceId: "device-b",
+      channel: "beta",
+      bundleId: null,
+    });
+    cloudfrontInvalidations = [];
+
+    await plugin.updateBundle("00000000-0000-0000-0000-000000000001", {
+      channel: "production",
+      targetAppVersion: "1.x.x",
+    });
+    await plugin.commitBundle();
+
+    expect(JSON.parse(fakeStore["device-overrides/device-a.json"])).toEqual({
+      deviceId: "device-a",
+      channel: null,
+      bundleId: "00000000-0000-0000-0000-000000000001",
+      _updateJsonKey: "production/ios/1.x.x/update.json",
+    });
+    expect(JSON.parse(fakeStore["device-overrides/device-b.json"])).toEqual({
+      deviceId: "device-b",
+      channel: "beta",
+      bundleId: null,
+    });
+    expect(cloudfrontInvalidations.flatMap((inv) => inv.paths)).toContain(
+      "/device-overrides/device-a.json",
+    );
+  });
+
+  it("should delete a device override", async () => {
+    await plugin.setDeviceOverride?.({
+      deviceId: "device-a",
+      channel: "beta",
+      bundleId: null,
+    });
+
+    await plugin.deleteDeviceOverride?.("device-a");
+
+    expect(fakeStore["device-overrides/device-a.json"]).toBeUndefined();
+    expect(await plugin.getDeviceOverrides?.()).toStrictEqual([]);
+  });
+
+  it("should store channel configs in channels.json", async () => {
+    await plugin.setChannelConfig?.({
+      channel: "app-globex",
+      parentChannel: "production",
+    });
+    await plugin.setChannelConfig?.({
+      channel: "app-acme",
+      parentChannel: "beta",
+    });
+    await plugin.setChannelConfig?.({
+      channel: "app-acme",
+      parentChannel: "production",
+    });
+
+    expect(JSON.parse(fakeStore["channels.json"])).toEqual([
+      { channel: "app-acme", parentChannel: "production" },
+      { channel: "app-globex", parentChannel: "production" },
+    ]);
+    expect(cloudfrontInvalidations.flatMap((inv) => inv.paths)).toContain(
+      "/channels.json",
+    );
+
+    await plugin.deleteChannelConfig?.("app-globex");
+
+    expect(await plugin.getChannelConfigs?.()).toStrictEqual([
+      { channel: "app-acme", parentChannel: "production" },
+    ]);
+  });
+
+  it("should store channel platform configs in channel-platforms.json", async () => {
+    await plugin.setChannelPlatformConfig?.({
+      channel: "production",
+      platform: "ios",
+      minAppVersion: "1.0.0",
+      storeUrl: null,
+    });
+    await plugin.setChannelPlatformConfig?.({
+      channel: "production",
+      platform: "android",
+      minAppVersion: "2.0.0",
+      storeUrl: "https://play.google.com/store/apps/details?id=com.example",
+    });
+    await plugin.setChannelPlatformConfig?.({
+      channel: "production",
+      platform: "ios",
+      minAppVersion: "2.0.0",
+      storeUrl: "https://apps.apple.com/app/id000000000",
+    });
+
+    expect(JSON.parse(fakeStore["channel-platforms.json"])).toEqual([
+      {
+        channel: "production",
+        platform: "android",
+        minAppVersion: "2.0.0",
+        storeUrl: "https://play.google.com/store/apps/details?id=com.example",
+      },
+      {
+        channel: "production",
+        platform: "ios",
+        minAppVersion: "2.0.0",
+        storeUrl: "https://apps.apple.com/app/id000000000",
+      },
+    ]);
+    expect(cloudfrontInvalidations.flatMap((inv) => inv.paths)).toContain(
+      "/channel-platforms.json",
+    );
+
+    await plugin.deleteChannelPlatformConfig?.("production", "android");
+
+    expect(await plugin.getChannelPlatformConfigs?.()).toStrictEqual([
+      {
+        channel: "production",
+        platform: "ios",
+        minAppVersion: "2.0.0",
+        storeUrl: "https://apps.apple.com/app/id000000000",
+      },
+    ]);
+  });
 });
@@ -11,7 +11,13 @@ import {
   type S3ClientConfig,
 } from "@aws-sdk/client-s3";
 import { Upload } from "@aws-sdk/lib-storage";
-import type { Bundle, DatabasePluginHooks } from "@hot-updater/plugin-core";
+import type {
+  Bundle,
+  ChannelConfig,
+  ChannelPlatformConfig,
+  DatabasePluginHooks,
+  DeviceOverride,
+} from "@hot-updater/plugin-core";
 import { createDatabasePlugin } from "@hot-updater/plugin-core";
 import { orderBy } from "es-toolkit";
 import mime from "mime";
@@ -27,6 +33,15 @@ interface BundleWithUpdateJsonKey extends Bundle {
   _oldUpdateJsonKey?: string;
 }
 
+interface DeviceOverrideWithUpdateJsonKey extends DeviceOverride {
+  // update.json containing the assigned bundle, so the update server can read it directly.
+  _updateJsonKey?: string;
+}
+
+const DEVICE_OVERRIDES_PREFIX = "device-overrides/";
+const CHANNELS_KEY = "channels.json";
+const CHANNEL_PLATFORMS_KEY = "channel-platforms.json";
+
 /**
  * Loads JSON data from S3.
  * Returns null if NoSuchKey error occurs.
@@ -100,6 +115,39 @@ async function invalidateCloudFront(
   );
 }
 
+/**
+ * Loads every device override, keeping the update.json key of its assigned bundle.
+ */
+async function loadDeviceOverrides(
+  client: S3Client,
+  bucketName: string,
+): Promise<DeviceOverrideWithUpdateJsonKey[]> {
+  let continuationToken: string | undefined;
+  const keys: string[] = [];
+  do {
+    const response = await client.send(
+      new ListObjectsV2Command({
+        Bucket: bucketName,
+        Prefix: DEVICE_OVERRIDES_PREFIX,
+        ContinuationToken: continuationToken,
+      }),
+    );
+    keys.push(
+      ...(response.Contents ?? [])
+        .map((item) => item.Key)
+        .filter((key): key is string => !!key?.endsWith(".json")),
+    );
+    continuationToken = response.NextContinuationToken;
+  } while (continuationToken);
+
+  const deviceOverrides = await Promise.all(
+    keys.map((key) =>
+      loadJsonFromS3<DeviceOverrideWithUpdateJsonKey>(client, bucketName, key),
+    ),
+  );
+  return deviceOverrides.filter((deviceOverride) => deviceOverride !== null);
+}
+
 // Helper function to remove internal management keys
 function removeBundleInternalKeys(bundle: BundleWithUpdateJsonKey): Bundle {
   const { _updateJsonKey, _oldUpdateJsonKey, ...pureBundle } = bundle;
@@ -217,6 +265,35 @@ async function updateTargetVersionsForPlatform(
   return updatedTargetFiles;
 }
 
+/**
+ * Loads the settings of all channels, empty when none were saved yet.
+ */
+async function loadChannelConfigs(
+  client: S3Client,
+  bucketName: string,
+): Promise<ChannelConfig[]> {
+  return (
+    (await loadJsonFromS3<ChannelConfig[]>(client, bucketName, CHANNELS_KEY)) ??
+    []
+  );
+}
+
+/**
+ * Loads the per-platform settings of all channels, empty when none were saved yet.
+ */
+async function loadChannelPlatformConfigs(
+  client: S3Client,
+  bucketName: string,
+): Promise<ChannelPlatformConfig[]> {
+  return (
+    (await loadJsonFromS3<ChannelPlatformConfig[]>(
+      client,
+      bucketName,
+      CHANNEL_PLATFORMS_KEY,
+    )) ?? []
+  );
+}
+
 export const s3Database = (
   config: S3DatabaseConfig,
   hooks?: DatabasePluginHooks,
@@ -325,6 +402,7 @@ export const s3Database = (
 
         const changedBundlesByKey: Record<string, Bundle[]> = {};
         const removalsByKey: Record<string, string[]> = {};
+        const movedBundleKeys = new Map<string, string>();
         const pathsToInvalidate: Set<string> = new Set();
 
         for (const { operation, data } of changedSets) {
@@ -381,6 +459,7 @@ export const s3Database = (
               const updatedBundle = { ...bundle, ...data };
               updatedBundle._oldUpdateJsonKey = oldKey;
               updatedBundle._updateJsonKey = newKey;
+              movedBundleKeys.set(data.id, newKey);
 
               bundlesMap.set(data.id, updatedBundle);
               pendingBundlesMap.set(data.id, updatedBundle);
@@ -454,6 +533,29 @@ export const s3Database = (
           })();
         }
 
+        // Device overrides point at the update.json of their assigned bundle, so they follow it when it moves
+        if (movedBundleKeys.size > 0) {
+          for (const deviceOverride of await loadDeviceOverrides(
+            client,
+            bucketName,
+          )) {
+            const newKey =
+              deviceOverride.bundleId &&
+              movedBundleKeys.get(deviceOverride.bundleId);
+            if (!newKey || newKey === deviceOverride._updateJsonKey) {
+              continue;
+            }
+            const key = `${DEVICE_OVERRIDES_PREFIX}${deviceOverride.deviceId}.json`;
+            await uploadJsonToS3<DeviceOverrideWithUpdateJsonKey>(
+              client,
+              bucketName,
+              key,
+              { ...deviceOverride, _updateJsonKey: newKey },
+            );
+            pathsToInvalidate.add(`/${key}`);
+          }
+        }
+
         // Update target-app-versions.json for each platform and collect paths that were actually updated
         const updatedTargetFilePaths = new Set<string>();
         for (const platform of PLATFORMS) {
@@ -488,6 +590,118 @@ export const s3Database = (
         pendingBundlesMap.clear();
         hooks?.onDatabaseUpdated?.();
       },
+
+      async getDeviceOverrides() {
+        return (await loadDeviceOverrides(client, bucketName))
+          .map(({ _updateJsonKey, ...deviceOverride }) => deviceOverride)
+          .sort((a, b) => a.deviceId.localeCompare(b.deviceId));
+      },
+
+      async setDeviceOverride(deviceOverride) {
+        const key = `${DEVICE_OVERRIDES_PREFIX}${deviceOverride.deviceId}.json`;
+        const assignedBundle = deviceOverride.bundleId
+          ? await this.getBundleById(deviceOverride.bundleId)
+          : null;
+
+        await uploadJsonToS3<DeviceOverrideWithUpdateJsonKey>(
+          client,
+          bucketName,
+          key,
+          {
+            ...deviceOverride,
+            _updateJsonKey: assignedBundle
+              ? `${assignedBundle.channel}/${assignedBundle.platform}/${assignedBundle.targetAppVersion}/update.json`
+              : undefined,
+          },
+        );
+        await invalidateCloudFront(cloudfrontClient, cloudfrontDistributionId, [
+          `/${key}`,
+        ]);
+      },
+
+      async deleteDeviceOverride(deviceId) {
+        const key = `${DEVICE_OVERRIDES_PREFIX}${deviceId}.json`;
+        await client.send(
+          new DeleteObjectCommand({ Bucket: bucketName, Key: key }),
+        );
+        await invalidateCloudFront(cloudfrontClient, cloudfrontDistributionId, [
+          `/${key}`,
+        ]);
+      },
+
+      async getChannelConfigs() {
+        return loadChannelConfigs(client, bucketName);
+      },
+
+      async setChannelConfig(channelConfig) {
+        const channelConfigs = (
+          await loadChannelConfigs(client, bucketName)
+        ).filter((c) => c.channel !== channelConfig.channel);
+        channelConfigs.push(channelConfig);
+        channelConfigs.sort((a, b) => a.channel.localeCompare(b.channel));
+
+        await uploadJsonToS3(client, bucketName, CHANNELS_KEY, channelConfigs);
+        await invalidateCloudFront(cloudfrontClient, cloudfrontDistributionId, [
+          `/${CHANNELS_KEY}`,
+        ]);
+      },
+
+      async deleteChannelConfig(channel) {
+        const channelConfigs = (
+          await loadChannelConfigs(client, bucketName)
+        ).filter((c) => c.channel !== channel);
+
+        await uploadJsonToS3(client, bucketName, CHANNELS_KEY, channelConfigs);
+        await invalidateCloudFront(cloudfrontClient, cloudfrontDistributionId, [
+          `/${CHANNELS_KEY}`,
+        ]);
+      },
+
+      async getChannelPlatformConfigs() {
+        return loadChannelPlatformConfigs(client, bucketName);
+      },
+
+      async setChannelPlatformConfig(channelPlatformConfig) {
+        const channelPlatformConfigs = (
+          await loadChannelPlatformConfigs(client, bucketName)
+        ).filter(
+          (c) =>
+            c.channel !== channelPlatformConfig.channel ||
+            c.platform !== channelPlatformConfig.platform,
+        );
+        channelPlatformConfigs.push(channelPlatformConfig);
+        channelPlatformConfigs.sort(
+          (a, b) =>
+            a.channel.localeCompare(b.channel) ||
+            a.platform.localeCompare(b.platform),
+        );
+
+        await uploadJsonToS3(
+          client,
+          bucketName,
+          CHANNEL_PLATFORMS_KEY,
+          channelPlatformConfigs,
+        );
+        await invalidateCloudFront(cloudfrontClient, cloudfrontDistributionId, [
+          `/${CHANNEL_PLATFORMS_KEY}`,
+        ]);
+      },
+
+      async deleteChannelPlatformConfig(channel, platform) {
+        const channelPlatformConfigs = (
+          await loadChannelPlatformConfigs(client, bucketName)
+        ).filter((c) => c.channel !== channel || c.platform !== platform);
+
+        await uploadJsonToS3(
+          client,
+          bucketName,
+          CHANNEL_PLATFORMS_KEY,
+          channelPlatformConfigs,
+        );
+        await invalidateCloudFront(cloudfrontClient, cloudfrontDistributionId, [
+          `/${CHANNEL_PLATFORMS_KEY}`,
+        ]);
+      },
     },
     hooks,
   );
@@ -9,7 +9,11 @@ CREATE TABLE bundles (
     file_hash TEXT NOT NULL,
     git_commit_hash TEXT,
     message TEXT,
-    channel TEXT NOT NULL
+    channel TEXT NOT NULL,
+    rollout_percentage INTEGER NOT NULL DEFAULT 100 CHECK (rollout_percentage BETWEEN 0 AND 100),
+    fingerprint_hash TEXT,
+    metadata TEXT CHECK (metadata IS NULL OR json_valid(metadata)),
+    source_bundle_id TEXT
 );
 
 CREATE INDEX bundles_target_app_version_idx ON bundles(target_app_version);
@@ -0,0 +1,10 @@
+-- HotUpdater.channel_platforms
+
+CREATE TABLE channel_platforms (
+    channel TEXT NOT NULL,
+    platform TEXT NOT NULL CHECK (platform IN ('ios', 'android')),
+    min_app_version TEXT,
+    store_url TEXT,
+    pinned_bundle_id TEXT,
+    PRIMARY KEY (channel, platform)
+);
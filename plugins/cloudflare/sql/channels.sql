@@ -0,0 +1,8 @@
+-- HotUpdater.channels
+
+CREATE TABLE channels (
+    channel TEXT PRIMARY KEY,
+    parent_channel TEXT,
+    mode TEXT NOT NULL DEFAULT 'normal' CHECK (mode IN ('normal', 'paused', 'revert-to-embedded')),
+    rollback_policy TEXT CHECK (rollback_policy IN ('force', 'next-launch', 'none'))
+);
@@ -0,0 +1,7 @@
+-- HotUpdater.device_overrides
+
+CREATE TABLE device_overrides (
+    device_id TEXT PRIMARY KEY,
+    channel TEXT,
+    bundle_id TEXT
+);
@@ -1,4 +1,10 @@
-import type { SnakeCaseBundle } from "@hot-updater/core";
+import type {
+  BundleMetadata,
+  SnakeCaseBundle,
+  SnakeCaseChannelConfig,
+  SnakeCaseChannelPlatformConfig,
+  SnakeCaseDeviceOverride,
+} from "@hot-updater/core";
 import type { Bundle, DatabasePluginHooks } from "@hot-updater/plugin-core";
 import { createDatabasePlugin } from "@hot-updater/plugin-core";
 import Cloudflare from "cloudflare";
@@ -19,6 +25,12 @@ async function resolvePage<T>(singlePage: any): Promise<T[]> {
   return results;
 }
 
+// D1 stores the metadata as JSON text
+const parseMetadata = (metadata: unknown) =>
+  typeof metadata === "string"
+    ? (JSON.parse(metadata) as BundleMetadata)
+    : null;
+
 export const d1Database = (
   config: D1DatabaseConfig,
   hooks?: DatabasePluginHooks,
@@ -65,6 +77,10 @@ export const d1Database = (
           message: row.message,
           platform: row.platform,
           targetAppVersion: row.target_app_version,
+          rolloutPercentage: row.rollout_percentage,
+          fingerprintHash: row.fingerprint_hash,
+          metadata: parseMetadata(row.metadata),
+          sourceBundleId: row.source_bundle_id,
         } as Bundle;
       },
 
@@ -122,6 +138,10 @@ export const d1Database = (
             message: row.message,
             platform: row.platform,
             targetAppVersion: row.target_app_version,
+            rolloutPercentage: row.rollout_percentage,
+            fingerprintHash: row.fingerprint_hash,
+            metadata: parseMetadata(row.metadata),
+            sourceBundleId: row.source_bundle_id,
           }));
         }
         return bundles;
@@ -163,8 +183,12 @@ export const d1Database = (
               b.message || null,
               b.platform,
               b.targetAppVersion,
+              b.rolloutPercentage ?? 100,
+              b.fingerprintHash ?? null,
+              b.metadata ? JSON.stringify(b.metadata) : null,
+              b.sourceBundleId ?? null,
             );
-            return "(?, ?, ?, ?, ?, ?, ?, ?, ?)";
+            return "(?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)";
           })
           .join(",\n");
 
@@ -178,7 +202,11 @@ export const d1Database = (
             git_commit_hash,
             message,
             platform,
-            target_app_version
+            target_app_version,
+            rollout_percentage,
+            fingerprint_hash,
+            metadata,
+            source_bundle_id
           )
           VALUES
           ${valuesSql};`);
@@ -189,6 +217,148 @@ export const d1Database = (
           params: params as string[],
         });
       },
+
+      async getDeviceOverrides() {
+        const singlePage = await cf.d1.database.query(config.databaseId, {
+          account_id: config.accountId,
+          sql: minify(
+            /* sql */ `
+            SELECT * FROM device_overrides ORDER BY device_id`,
+          ),
+          params: [],
+        });
+
+        const rows = await resolvePage<SnakeCaseDeviceOverride>(singlePage);
+        return rows.map((row) => ({
+          deviceId: row.device_id,
+          channel: row.channel,
+          bundleId: row.bundle_id,
+        }));
+      },
+
+      async setDeviceOverride(deviceOverride) {
+        await cf.d1.database.query(config.databaseId, {
+          account_id: config.accountId,
+          sql: minify(
+            /* sql */ `
+            INSERT OR REPLACE INTO device_overrides (device_id, channel, bundle_id)
+            VALUES (?, ?, ?)`,
+          ),
+          params: [
+            deviceOverride.deviceId,
+            deviceOverride.channel,
+            deviceOverride.bundleId,
+          ] as string[],
+        });
+      },
+
+      async deleteDeviceOverride(deviceId) {
+        await cf.d1.database.query(config.databaseId, {
+          account_id: config.accountId,
+          sql: minify(
+            /* sql */ `
+            DELETE FROM device_overrides WHERE device_id = ?`,
+          ),
+          params: [deviceId],
+        });
+      },
+
+      async getChannelConfigs() {
+        const singlePage = await cf.d1.database.query(config.databaseId, {
+          account_id: config.accountId,
+          sql: minify(
+            /* sql */ `
+            SELECT * FROM channels ORDER BY channel`,
+          ),
+          params: [],
+        });
+
+        const rows = await resolvePage<SnakeCaseChannelConfig>(singlePage);
+        return rows.map((row) => ({
+          channel: row.channel,
+          parentChannel: row.parent_channel,
+          mode: row.mode,
+          rollbackPolicy: row.rollback_policy,
+        }));
+      },
+
+      async setChannelConfig(channelConfig) {
+        await cf.d1.database.query(config.databaseId, {
+          account_id: config.accountId,
+          sql: minify(
+            /* sql */ `
+            INSERT OR REPLACE INTO channels (channel, parent_channel, mode, rollback_policy)
+            VALUES (?, ?, ?, ?)`,
+          ),
+          params: [
+            channelConfig.channel,
+            channelConfig.parentChannel,
+            channelConfig.mode ?? "normal",
+            channelConfig.rollbackPolicy ?? null,
+          ] as string[],
+        });
+      },
+
+      async deleteChannelConfig(channel) {
+        await cf.d1.database.query(config.databaseId, {
+          account_id: config.accountId,
+          sql: minify(
+            /* sql */ `
+            DELETE FROM channels WHERE channel = ?`,
+          ),
+          params: [channel],
+        });
+      },
+
+      async getChannelPlatformConfigs() {
+        const singlePage = await cf.d1.database.query(config.databaseId, {
+          account_id: config.accountId,
+          sql: minify(
+            /* sql */ `
+            SELECT * FROM channel_platforms ORDER BY channel, platform`,
+          ),
+          params: [],
+        });
+
+        const rows =
+          await resolvePage<SnakeCaseChannelPlatformConfig>(singlePage);
+        return rows.map((row) => ({
+          channel: row.channel,
+          platform: row.platform,
+          minAppVersion: row.min_app_version,
+          storeUrl: row.store_url,
+          pinnedBundleId: row.pinned_bundle_id ?? null,
+        }));
+      },
+
+      async setChannelPlatformConfig(channelPlatformConfig) {
+        await cf.d1.database.query(config.databaseId, {
+          account_id: config.accountId,
+          sql: minify(
+            /* sql */ `
+            INSERT OR REPLACE INTO channel_platforms (channel, platform, min_app_version, store_url, pinned_bundle_id)
+            VALUES (?, ?, ?, ?, ?)`,
+          ),
+          params: [
+            channelPlatformConfig.channel,
+            channelPlatformConfig.platform,
+            channelPlatformConfig.minAppVersion,
+            channelPlatformConfig.storeUrl,
+            channelPlatformConfig.pinnedBundleId ?? null,
+          ] as string[],
+        });
+      },
+
+      async deleteChannelPlatformConfig(channel, platform) {
+        await cf.d1.database.query(config.databaseId, {
+          account_id: config.accountId,
+          sql: minify(
+            /* sql */ `
+            DELETE FROM channel_platforms WHERE channel = ? AND platform = ?`,
+          ),
+          params: [channel, platform],
+        });
+      },
     },
     hooks,
   );
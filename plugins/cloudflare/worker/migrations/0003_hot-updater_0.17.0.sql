@@ -0,0 +1,42 @@
+-- Migration number: 0003 	 2026-10-19T09:12:44.120Z
+-- HotUpdater.bundles
+
+ALTER TABLE bundles
+ADD COLUMN rollout_percentage INTEGER NOT NULL DEFAULT 100 CHECK (rollout_percentage BETWEEN 0 AND 100);
+
+ALTER TABLE bundles
+ADD COLUMN fingerprint_hash TEXT;
+
+ALTER TABLE bundles
+ADD COLUMN metadata TEXT CHECK (metadata IS NULL OR json_valid(metadata));
+
+ALTER TABLE bundles
+ADD COLUMN source_bundle_id TEXT;
+
+-- HotUpdater.device_overrides
+
+CREATE TABLE device_overrides (
+    device_id TEXT PRIMARY KEY,
+    channel TEXT,
+    bundle_id TEXT
+);
+
+-- HotUpdater.channels
+
+CREATE TABLE channels (
+    channel TEXT PRIMARY KEY,
+    parent_channel TEXT,
+    mode TEXT NOT NULL DEFAULT 'normal' CHECK (mode IN ('normal', 'paused', 'revert-to-embedded')),
+    rollback_policy TEXT CHECK (rollback_policy IN ('force', 'next-launch', 'none'))
+);
+
+-- HotUpdater.channel_platforms
+
+CREATE TABLE channel_platforms (
+    channel TEXT NOT NULL,
+    platform TEXT NOT NULL CHECK (platform IN ('ios', 'android')),
+    min_app_version TEXT,
+    store_url TEXT,
+    pinned_bundle_id TEXT,
+    PRIMARY KEY (channel, platform)
+);
@@ -1,8 +1,12 @@
 import {
   type Bundle,
+  type ChannelConfig,
+  type ChannelPlatformConfig,
+  type DeviceOverride,
   type GetBundlesArgs,
   NIL_UUID,
   type UpdateInfo,
+  type UpdateResolutionContext,
 } from "@hot-updater/core";
 import { setupGetUpdateInfoTestSuite } from "@hot-updater/core/test-utils";
 import { beforeAll, beforeEach, describe, inject } from "vitest";
@@ -26,7 +30,8 @@ const createInsertBundleQuery = (bundle: Bundle) => {
   return `
     INSERT INTO bundles (
       id, file_hash, platform, target_app_version,
-      should_force_update, enabled, git_commit_hash, message, channel
+      should_force_update, enabled, git_commit_hash, message, channel,
+      rollout_percentage, fingerprint_hash, metadata, source_bundle_id
     ) VALUES (
       '${bundle.id}',
       '${bundle.fileHash}',
@@ -36,7 +41,46 @@ const createInsertBundleQuery = (bundle: Bundle) => {
       ${bundle.enabled},
       ${bundle.gitCommitHash ? `'${bundle.gitCommitHash}'` : "null"},
       ${bundle.message ? `'${bundle.message}'` : "null"},
-      '${bundle.channel}'
+      '${bundle.channel}',
+      ${bundle.rolloutPercentage ?? 100},
+      ${bundle.fingerprintHash ? `'${bundle.fingerprintHash}'` : "null"},
+      ${bundle.metadata ? `'${JSON.stringify(bundle.metadata)}'` : "null"},
+      ${bundle.sourceBundleId ? `'${bundle.sourceBundleId}'` : "null"}
+    );
+  `;
+};
+
+const createInsertDeviceOverrideQuery = (deviceOverride: DeviceOverride) => {
+  return `
+    INSERT INTO device_overrides (device_id, channel, bundle_id) VALUES (
+      '${deviceOverride.deviceId}',
+      ${deviceOverride.channel ? `'${deviceOverride.channel}'` : "null"},
+      ${deviceOverride.bundleId ? `'${deviceOverride.bundleId}'` : "null"}
+    );
+  `;
+};
+
+const createInsertChannelConfigQuery = (channelConfig: ChannelConfig) => {
+  return `
+    INSERT INTO channels (channel, parent_channel, mode, rollback_policy) VALUES (
+      '${channelConfig.channel}',
+      ${channelConfig.parentChannel ? `'${channelConfig.parentChannel}'` : "null"},
+      '${channelConfig.mode ?? "normal"}',
+      ${channelConfig.rollbackPolicy ? `'${channelConfig.rollbackPolicy}'` : "null"}
+    );
+  `;
+};
+
+const createInsertChannelPlatformConfigQuery = (
+  channelPlatformConfig: ChannelPlatformConfig,
+) => {
+  return `
+    INSERT INTO channel_platforms (channel, platform, min_app_version, store_url, pinned_bundle_id) VALUES (
+      '${channelPlatformConfig.channel}',
+      '${channelPlatformConfig.platform}',
+      ${channelPlatformConfig.minAppVersion ? `'${channelPlatformConfig.minAppVersion}'` : "null"},
+      ${channelPlatformConfig.storeUrl ? `'${channelPlatformConfig.storeUrl}'` : "null"},
+      ${channelPlatformConfig.pinnedBundleId ? `'${channelPlatformConfig.pinnedBundleId}'` : "null"}
     );
   `;
 };
@@ -45,17 +89,55 @@ const createGetUpdateInfo =
   (db: D1Database) =>
   async (
     bundles: Bundle[],
-    { appVersion, bundleId, platform, minBundleId, channel }: GetBundlesArgs,
+    {
+      appVersion,
+      bundleId,
+      platform,
+      minBundleId,
+      channel,
+      deviceId,
+      fingerprintHash,
+      includeReleaseNotes,
+    }: GetBundlesArgs,
+    {
+      deviceOverrides = [],
+      channelConfigs = [],
+      channelPlatformConfigs = [],
+    }: UpdateResolutionContext = {},
   ): Promise<UpdateInfo | null> => {
     if (bundles.length > 0) {
       await db.prepare(createInsertBundleQuerys(bundles)).run();
     }
+    if (deviceOverrides.length > 0) {
+      await db
+        .prepare(
+          deviceOverrides.map(createInsertDeviceOverrideQuery).join("\n"),
+        )
+        .run();
+    }
+    if (channelConfigs.length > 0) {
+      await db
+        .prepare(channelConfigs.map(createInsertChannelConfigQuery).join("\n"))
+        .run();
+    }
+    if (channelPlatformConfigs.length > 0) {
+      await db
+        .prepare(
+          channelPlatformConfigs
+            .map(createInsertChannelPlatformConfigQuery)
+            .join("\n"),
+        )
+        .run();
+    }
     return (await getUpdateInfoFromWorker(db, {
       appVersion,
       bundleId,
       platform,
       minBundleId: minBundleId || NIL_UUID,
       channel,
+      deviceId,
+      fingerprintHash,
+      includeReleaseNotes,
     })) as UpdateInfo | null;
   };
 
@@ -72,6 +154,9 @@ describe("getUpdateInfo", async () => {
 
   beforeEach(async () => {
     await env.DB.prepare("DELETE FROM bundles").run();
+    await env.DB.prepare("DELETE FROM device_overrides").run();
+    await env.DB.prepare("DELETE FROM channels").run();
+    await env.DB.prepare("DELETE FROM channel_platforms").run();
   });
 
   setupGetUpdateInfoTestSuite({
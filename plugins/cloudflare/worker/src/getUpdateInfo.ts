@@ -1,22 +1,240 @@
-import { filterCompatibleAppVersions } from "@hot-updater/js";
+import {
+  filterCompatibleAppVersions,
+  getChannelMode,
+  getRollbackPolicy,
+  getRolloutBucket,
+  resolveAssignedBundle,
+  resolveChannelMode,
+  resolveNativeUpdateRequired,
+} from "@hot-updater/js";
 
 import {
+  type BundleMetadata,
   type GetBundlesArgs,
   NIL_UUID,
+  type Platform,
+  type ReleaseNote,
+  type SnakeCaseBundle,
+  type SnakeCaseChannelConfig,
+  type SnakeCaseChannelPlatformConfig,
+  type SnakeCaseDeviceOverride,
   type UpdateInfo,
   type UpdateStatus,
 } from "@hot-updater/core";
 
+const getDeviceOverride = async (DB: D1Database, deviceId?: string) => {
+  if (!deviceId) {
+    return null;
+  }
+  return DB.prepare(
+    /* sql */ `
+    SELECT device_id, channel, bundle_id
+    FROM device_overrides
+    WHERE device_id = ?
+  `,
+  )
+    .bind(deviceId)
+    .first<SnakeCaseDeviceOverride>();
+};
+
+// D1 stores the metadata as JSON text
+const parseMetadata = (metadata: unknown) =>
+  typeof metadata === "string"
+    ? (JSON.parse(metadata) as BundleMetadata)
+    : null;
+
+const getAssignedBundle = async (DB: D1Database, bundleId: string) => {
+  const row = await DB.prepare(
+    /* sql */ `
+    SELECT *
+    FROM bundles
+    WHERE id = ?
+  `,
+  )
+    .bind(bundleId)
+    .first<SnakeCaseBundle>();
+
+  if (!row) {
+    return undefined;
+  }
+  return {
+    id: row.id,
+    channel: row.channel,
+    enabled: Boolean(row.enabled),
+    shouldForceUpdate: Boolean(row.should_force_update),
+    fileHash: row.file_hash,
+    gitCommitHash: row.git_commit_hash,
+    message: row.message,
+    platform: row.platform,
+    targetAppVersion: row.target_app_version,
+    rolloutPercentage: row.rollout_percentage,
+    fingerprintHash: row.fingerprint_hash,
+    metadata: parseMetadata(row.metadata),
+    sourceBundleId: row.source_bundle_id,
+  };
+};
+
+// Apps running a promoted bundle report the id of its source bundle, which is compiled into the JS
+const getPromotedBundleId = async (
+  DB: D1Database,
+  bundleId: string,
+  platform: Platform,
+  channel: string,
+) => {
+  const row = await DB.prepare(
+    /* sql */ `
+    WITH RECURSIVE channel_chain(channel) AS (
+      SELECT ?
+      UNION
+      SELECT c.parent_channel
+      FROM channels c
+      JOIN channel_chain cc ON c.channel = cc.channel
+      WHERE c.parent_channel IS NOT NULL
+    )
+    SELECT id
+    FROM bundles
+    WHERE source_bundle_id = ?
+      AND platform = ?
+      AND channel IN (SELECT channel FROM channel_chain)
+    ORDER BY id DESC
+    LIMIT 1
+  `,
+  )
+    .bind(channel, bundleId, platform)
+    .first<{ id: string }>();
+  return row?.id;
+};
+
+// Settings of the channel and its ancestors, closest channel first
+const getChannelPlatformConfigs = async (
+  DB: D1Database,
+  channel: string,
+  platform: Platform,
+) => {
+  const { results } = await DB.prepare(
+    /* sql */ `
+    WITH RECURSIVE channel_chain(channel, depth) AS (
+      SELECT ?, 0
+      UNION ALL
+      SELECT c.parent_channel, cc.depth + 1
+      FROM channels c
+      JOIN channel_chain cc ON c.channel = cc.channel
+      WHERE c.parent_channel IS NOT NULL AND cc.depth < 10
+    )
+    SELECT p.*
+    FROM channel_platforms p
+    JOIN channel_chain cc ON p.channel = cc.channel
+    WHERE p.platform = ?
+    ORDER BY cc.depth
+  `,
+  )
+    .bind(channel, platform)
+    .all<SnakeCaseChannelPlatformConfig>();
+  return results;
+};
+
+// Settings of the channel and its ancestors, closest channel first
+const getChannelConfigs = async (DB: D1Database, channel: string) => {
+  const { results } = await DB.prepare(
+    /* sql */ `
+    WITH RECURSIVE channel_chain(channel, depth) AS (
+      SELECT ?, 0
+      UNION ALL
+      SELECT c.parent_channel, cc.depth + 1
+      FROM channels c
+      JOIN channel_chain cc ON c.channel = cc.channel
+      WHERE c.parent_channel IS NOT NULL AND cc.depth < 10
+    )
+    SELECT c.*
+    FROM channels c
+    JOIN channel_chain cc ON c.channel = cc.channel
+    ORDER BY cc.depth
+  `,
+  )
+    .bind(channel)
+    .all<SnakeCaseChannelConfig>();
+  return results.map((row) => ({
+    channel: row.channel,
+    parentChannel: row.parent_channel,
+    mode: row.mode,
+    rollbackPolicy: row.rollback_policy,
+  }));
+};
+
 export const getUpdateInfo = async (
   DB: D1Database,
   {
     platform,
     appVersion,
-    bundleId,
+    bundleId: reportedBundleId,
     minBundleId = NIL_UUID,
-    channel = "production",
+    channel: requestedChannel = "production",
+    deviceId,
+    fingerprintHash,
+    includeReleaseNotes = false,
   }: GetBundlesArgs,
 ) => {
+  const deviceOverride = await getDeviceOverride(DB, deviceId);
+  const channel = deviceOverride?.channel ?? requestedChannel;
+
+  const channelConfigs = await getChannelConfigs(DB, channel);
+  const channelChain = channelConfigs.map((c) => c.channel);
+  const bundleId =
+    (await getPromotedBundleId(DB, reportedBundleId, platform, channel)) ??
+    reportedBundleId;
+
+  const channelModeInfo = resolveChannelMode(
+    getChannelMode(channelChain, channelConfigs),
+    { bundleId, minBundleId },
+  );
+  if (channelModeInfo !== undefined) {
+    return channelModeInfo;
+  }
+
+  if (deviceOverride?.bundle_id) {
+    const assignedUpdateInfo = resolveAssignedBundle(
+      await getAssignedBundle(DB, deviceOverride.bundle_id),
+      { platform, bundleId, appVersion, minBundleId, fingerprintHash },
+    );
+    if (assignedUpdateInfo !== undefined) {
+      return assignedUpdateInfo;
+    }
+  }
+
+  const channelPlatformConfigs = await getChannelPlatformConfigs(
+    DB,
+    channel,
+    platform,
+  );
+
+  const minAppVersionConfig = channelPlatformConfigs.find(
+    (c) => c.min_app_version,
+  );
+  const nativeUpdateRequiredInfo = resolveNativeUpdateRequired(
+    minAppVersionConfig && {
+      minAppVersion: minAppVersionConfig.min_app_version,
+      storeUrl: minAppVersionConfig.store_url,
+    },
+    { bundleId: reportedBundleId, appVersion },
+  );
+  if (nativeUpdateRequiredInfo) {
+    return nativeUpdateRequiredInfo;
+  }
+
+  // A pinned bundle is served like an assigned one, ignoring newer bundles of the channel
+  const pinnedBundleId = channelPlatformConfigs.find(
+    (c) => c.pinned_bundle_id,
+  )?.pinned_bundle_id;
+  if (pinnedBundleId) {
+    const pinnedUpdateInfo = resolveAssignedBundle(
+      await getAssignedBundle(DB, pinnedBundleId),
+      { platform, bundleId, appVersion, minBundleId, fingerprintHash },
+    );
+    if (pinnedUpdateInfo !== undefined) {
+      return pinnedUpdateInfo;
+    }
+  }
+
   const appVersionList = await DB.prepare(
     /* sql */ `
     SELECT 
@@ -35,27 +253,43 @@ export const getUpdateInfo = async (
   );
 
   const sql = /* sql */ `
-  WITH input AS (
+  WITH RECURSIVE input AS (
     SELECT 
       ? AS app_platform,
       ? AS app_version,
       ? AS bundle_id,
       ? AS min_bundle_id,
       ? AS channel,
+      ? AS device_bucket,
+      ? AS fingerprint_hash,
+      ? AS rollback_policy,
+      ? AS include_release_notes,
       '00000000-0000-0000-0000-000000000000' AS nil_uuid
   ),
+  channel_chain(channel) AS (
+    SELECT channel FROM input
+    UNION
+    SELECT c.parent_channel
+    FROM channels c
+    JOIN channel_chain cc ON c.channel = cc.channel
+    WHERE c.parent_channel IS NOT NULL
+  ),
   update_candidate AS (
     SELECT 
       b.id,
       b.should_force_update,
       b.message,
-      'UPDATE' AS status
+      'UPDATE' AS status,
+      b.metadata,
+      b.source_bundle_id
     FROM bundles b, input
     WHERE b.enabled = 1
       AND b.platform = input.app_platform
       AND b.id >= input.bundle_id
       AND b.id >= input.min_bundle_id
-      AND b.channel = input.channel
+      AND b.channel IN (SELECT channel FROM channel_chain)
+      AND (b.rollout_percentage >= 100 OR b.rollout_percentage > input.device_bucket)
+      AND (b.fingerprint_hash IS NULL OR b.fingerprint_hash = input.fingerprint_hash)
       AND b.target_app_version IN (${targetAppVersionList
         .map((version) => `'${version}'`)
         .join(",")})
@@ -65,14 +299,23 @@ export const getUpdateInfo = async (
   rollback_candidate AS (
     SELECT 
       b.id,
-      1 AS should_force_update,
+      input.rollback_policy = 'force' AS should_force_update,
       b.message,
-      'ROLLBACK' AS status
+      'ROLLBACK' AS status,
+      b.metadata,
+      b.source_bundle_id
     FROM bundles b, input
-    WHERE b.enabled = 1
+    WHERE input.rollback_policy <> 'none'
+      AND b.enabled = 1
       AND b.platform = input.app_platform
       AND b.id < input.bundle_id
       AND b.id >= input.min_bundle_id
+      AND b.channel IN (SELECT channel FROM channel_chain)
+      AND (b.rollout_percentage >= 100 OR b.rollout_percentage > input.device_bucket)
+      AND (b.fingerprint_hash IS NULL OR b.fingerprint_hash = input.fingerprint_hash)
+      AND b.target_app_version IN (${targetAppVersionList
+        .map((version) => `'${version}'`)
+        .join(",")})
     ORDER BY b.id DESC
     LIMIT 1
   ),
@@ -82,29 +325,69 @@ export const getUpdateInfo = async (
     SELECT * FROM rollback_candidate
     WHERE NOT EXISTS (SELECT 1 FROM update_candidate)
   )
-  SELECT id, should_force_update, message, status
+  SELECT
+    COALESCE(source_bundle_id, id) AS id,
+    should_force_update,
+    message,
+    status,
+    -- Messages of every eligible bundle up to the update, so skipped changes are not lost
+    CASE WHEN include_release_notes = 1 AND status = 'UPDATE' THEN (
+      SELECT json_group_array(json_object('id', n.id, 'message', n.message))
+      FROM (
+        SELECT COALESCE(n.source_bundle_id, n.id) AS id, n.message
+        FROM bundles n
+        WHERE n.enabled = 1
+          AND n.platform = input.app_platform
+          AND n.id > input.bundle_id
+          AND n.id <= final_result.id
+          AND n.id >= input.min_bundle_id
+          AND n.channel IN (SELECT channel FROM channel_chain)
+          AND (n.rollout_percentage >= 100 OR n.rollout_percentage > input.device_bucket)
+          AND (n.fingerprint_hash IS NULL OR n.fingerprint_hash = input.fingerprint_hash)
+          AND n.target_app_version IN (${targetAppVersionList
+            .map((version) => `'${version}'`)
+            .join(",")})
+        ORDER BY n.id
+      ) n
+    ) END AS release_notes,
+    metadata
   FROM final_result, input
-  WHERE id <> bundle_id
+  WHERE final_result.id <> input.bundle_id
   
   UNION ALL
   
   SELECT 
     nil_uuid AS id,
-    1 AS should_force_update,
+    rollback_policy = 'force' AS should_force_update,
     NULL AS message,
-    'ROLLBACK' AS status
+    'ROLLBACK' AS status,
+    NULL AS release_notes,
+    NULL AS metadata
   FROM input
-  WHERE (SELECT COUNT(*) FROM final_result) = 0
+  WHERE rollback_policy <> 'none'
+    AND (SELECT COUNT(*) FROM final_result) = 0
     AND bundle_id > min_bundle_id;
 `;
 
   const result = await DB.prepare(sql)
-    .bind(platform, appVersion, bundleId, minBundleId, channel)
+    .bind(
+      platform,
+      appVersion,
+      bundleId,
+      minBundleId,
+      channel,
+      getRolloutBucket(deviceId),
+      fingerprintHash ?? null,
+      getRollbackPolicy(channelChain, channelConfigs),
+      includeReleaseNotes ? 1 : 0,
+    )
     .first<{
       id: string;
       should_force_update: number;
       status: UpdateStatus;
       message: string | null;
+      release_notes: string | null;
+      metadata: string | null;
     }>();
 
   if (!result) {
@@ -116,5 +399,9 @@ export const getUpdateInfo = async (
     shouldForceUpdate: Boolean(result.should_force_update),
     status: result.status,
     message: result.message,
+    ...(result.release_notes
+      ? { releaseNotes: JSON.parse(result.release_notes) as ReleaseNote[] }
+      : {}),
+    ...(result.metadata ? { metadata: parseMetadata(result.metadata) } : {}),
   } as UpdateInfo;
 };
@@ -1,4 +1,4 @@
-import { NIL_UUID } from "@hot-updater/core";
+import { NIL_UUID, validateAppUpdateInfo } from "@hot-updater/core";
 import { verifyJwtSignedUrl, withJwtSignedUrl } from "@hot-updater/js";
 import { Hono } from "hono";
 import { getUpdateInfo } from "./getUpdateInfo";
@@ -17,6 +17,12 @@ app.get("/api/check-update", async (c) => {
   const appVersion = c.req.header("x-app-version") as string;
   const minBundleId = c.req.header("x-min-bundle-id") as string | undefined;
   const channel = c.req.header("x-channel") as string | undefined;
+  const deviceId = c.req.header("x-device-id") as string | undefined;
+  const fingerprintHash = c.req.header("x-fingerprint-hash") as
+    | string
+    | undefined;
+  const includeReleaseNotes =
+    c.req.header("x-include-release-notes") === "true";
 
   if (!bundleId || !appPlatform || !appVersion) {
     return c.json(
@@ -31,6 +37,9 @@ app.get("/api/check-update", async (c) => {
     platform: appPlatform,
     minBundleId: minBundleId || NIL_UUID,
     channel: channel || "production",
+    deviceId,
+    fingerprintHash,
+    includeReleaseNotes,
   });
 
   const appUpdateInfo = await withJwtSignedUrl({
@@ -39,7 +48,15 @@ app.get("/api/check-update", async (c) => {
     jwtSecret: c.env.JWT_SECRET,
   });
 
-  return c.json(appUpdateInfo, 200);
+  if (!appUpdateInfo) {
+    return c.json(null, 200);
+  }
+
+  const validation = validateAppUpdateInfo(appUpdateInfo);
+  if (!validation.success) {
+    return c.json({ error: "Invalid update info" }, 500);
+  }
+  return c.json(validation.data, 200);
 });
 
 app.get("*", async (c) => {
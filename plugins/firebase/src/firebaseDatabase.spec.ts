@@ -7,6 +7,7 @@ import type {
 import { getApp, getApps, initializeApp } from "firebase/app";
 import {
   type QuerySnapshot,
+  deleteDoc,
   doc,
   getDoc,
   getDocs,
@@ -40,6 +41,7 @@ vi.mock("firebase/firestore", () => {
   const mockCollection = vi.fn(() => mockCollectionRef);
   const mockDoc = vi.fn(() => "document-ref");
   const mockSetDoc = vi.fn();
+  const mockDeleteDoc = vi.fn();
   const mockGetDoc = vi.fn(() => ({
     exists: () => false,
     data: () => null,
@@ -56,6 +58,7 @@ vi.mock("firebase/firestore", () => {
     collection: mockCollection,
     doc: mockDoc,
     setDoc: mockSetDoc,
+    deleteDoc: mockDeleteDoc,
     getDoc: mockGetDoc,
     query: mockQuery,
     orderBy: mockOrderBy,
@@ -109,6 +112,8 @@ describe("Firebase Database Plugin", () => {
   beforeEach(() => {
     vi.resetAllMocks();
     vi.mocked(getApps).mockReturnValue([]);
+    // resetAllMocks drops the implementation given to the mock factory
+    vi.mocked(doc).mockReturnValue("document-ref" as any);
     databasePlugin = firebaseDatabase(mockConfig, mockHooks)(baseArgs);
   });
 
@@ -187,6 +192,10 @@ describe("Firebase Database Plugin", () => {
           platform: "android",
           should_force_update: false,
           target_app_version: "1.0.0",
+          rollout_percentage: 100,
+          fingerprint_hash: null,
+          metadata: null,
+          source_bundle_id: null,
         },
         { merge: true },
       );
@@ -335,4 +344,53 @@ describe("Firebase Database Plugin", () => {
       expect(result[0].id).toBe("test-bundle-id");
     });
   });
+
+  describe("deviceOverrides", () => {
+    it("should return device overrides from Firestore", async () => {
+      vi.mocked(getDocs).mockResolvedValueOnce({
+        empty: false,
+        docs: [
+          {
+            data: () => ({
+              device_id: "device-a",
+              channel: "beta",
+              bundle_id: null,
+            }),
+          },
+        ],
+      } as any);
+
+      const result = await databasePlugin.getDeviceOverrides?.();
+
+      expect(result).toEqual([
+        { deviceId: "device-a", channel: "beta", bundleId: null },
+      ]);
+    });
+
+    it("should write the device override keyed by device id", async () => {
+      vi.mocked(doc).mockReturnValue("device-override-ref" as any);
+
+      await databasePlugin.setDeviceOverride?.({
+        deviceId: "device-a",
+        channel: null,
+        bundleId: "test-bundle-id",
+      });
+
+      expect(vi.mocked(doc).mock.lastCall?.[1]).toBe("device-a");
+      expect(setDoc).toHaveBeenCalledWith("device-override-ref", {
+        device_id: "device-a",
+        channel: null,
+        bundle_id: "test-bundle-id",
+      });
+    });
+
+    it("should delete the device override", async () => {
+      vi.mocked(doc).mockReturnValue("device-override-ref" as any);
+
+      await databasePlugin.deleteDeviceOverride?.("device-a");
+
+      expect(vi.mocked(doc).mock.lastCall?.[1]).toBe("device-a");
+      expect(deleteDoc).toHaveBeenCalledWith("device-override-ref");
+    });
+  });
 });
@@ -3,6 +3,7 @@ import { createDatabasePlugin } from "@hot-updater/plugin-core";
 import { getApp, getApps, initializeApp } from "firebase/app";
 import {
   collection,
+  deleteDoc,
   doc,
   getDoc,
   getDocs,
@@ -31,6 +32,7 @@ export const firebaseDatabase = (
 
   const db = getFirestore(app);
   const bundlesCollection = collection(db, "bundles");
+  const deviceOverridesCollection = collection(db, "device_overrides");
 
   return createDatabasePlugin(
     "firebaseDatabase",
@@ -54,6 +56,10 @@ export const firebaseDatabase = (
           platform: data.platform,
           targetAppVersion: data.target_app_version,
           channel: data.channel,
+          rolloutPercentage: data.rollout_percentage,
+          fingerprintHash: data.fingerprint_hash,
+          metadata: data.metadata,
+          sourceBundleId: data.source_bundle_id,
         };
       },
 
@@ -95,6 +101,10 @@ export const firebaseDatabase = (
             platform: data.platform,
             targetAppVersion: data.target_app_version,
             channel: data.channel,
+            rolloutPercentage: data.rollout_percentage,
+            fingerprintHash: data.fingerprint_hash,
+            metadata: data.metadata,
+            sourceBundleId: data.source_bundle_id,
           };
         });
       },
@@ -131,12 +141,43 @@ export const firebaseDatabase = (
                 platform: data.platform,
                 target_app_version: data.targetAppVersion,
                 channel: data.channel,
+                rollout_percentage: data.rolloutPercentage ?? 100,
+                fingerprint_hash: data.fingerprintHash ?? null,
+                metadata: data.metadata ?? null,
+                source_bundle_id: data.sourceBundleId ?? null,
               },
               { merge: true },
             );
           }
         }
       },
+
+      async getDeviceOverrides() {
+        const querySnapshot = await getDocs(
+          query(deviceOverridesCollection, orderBy("device_id")),
+        );
+
+        return querySnapshot.docs.map((doc) => {
+          const data = doc.data();
+          return {
+            deviceId: data.device_id,
+            channel: data.channel,
+            bundleId: data.bundle_id,
+          };
+        });
+      },
+
+      async setDeviceOverride(deviceOverride) {
+        await setDoc(doc(deviceOverridesCollection, deviceOverride.deviceId), {
+          device_id: deviceOverride.deviceId,
+          channel: deviceOverride.channel,
+          bundle_id: deviceOverride.bundleId,
+        });
+      },
+
+      async deleteDeviceOverride(deviceId) {
+        await deleteDoc(doc(deviceOverridesCollection, deviceId));
+      },
     },
     hooks,
   );
@@ -58,4 +58,25 @@ describe("checkForRollback", () => {
     const result = checkForRollback([], "00000000-0000-0000-0000-000000000001");
     expect(result).toBe(true);
   });
+
+  it("should return false if the rollback policy is none", () => {
+    const bundles: Bundle[] = [
+      {
+        id: "00000000-0000-0000-0000-000000000001",
+        enabled: true,
+        ...DEFAULT_BUNDLE,
+      },
+      {
+        id: "00000000-0000-0000-0000-000000000002",
+        enabled: false,
+        ...DEFAULT_BUNDLE,
+      },
+    ];
+    const currentBundleId = "00000000-0000-0000-0000-000000000002";
+    expect(checkForRollback(bundles, currentBundleId, "next-launch")).toBe(
+      true,
+    );
+    expect(checkForRollback(bundles, currentBundleId, "none")).toBe(false);
+    expect(checkForRollback([], currentBundleId, "none")).toBe(false);
+  });
 });
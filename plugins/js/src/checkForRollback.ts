@@ -1,11 +1,12 @@
-import { type Bundle, NIL_UUID } from "@hot-updater/core";
+import { type Bundle, NIL_UUID, type RollbackPolicy } from "@hot-updater/core";
 import { isNullable } from "./utils";
 
 export const checkForRollback = (
   bundles: Bundle[],
   currentBundleId: string,
+  rollbackPolicy: RollbackPolicy = "force",
 ) => {
-  if (currentBundleId === NIL_UUID) {
+  if (currentBundleId === NIL_UUID || rollbackPolicy === "none") {
     return false;
   }
 
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest";
+import {
+  filterSatisfiedMinAppVersions,
+  isBelowMinAppVersion,
+} from "./filterSatisfiedMinAppVersions";
+
+describe("isBelowMinAppVersion", () => {
+  it("compares coerced versions", () => {
+    expect(isBelowMinAppVersion("2.0.0", "1.9.9")).toBe(true);
+    expect(isBelowMinAppVersion("2.0", "2.0.0")).toBe(false);
+    expect(isBelowMinAppVersion("2.0.0", "2.1")).toBe(false);
+  });
+
+  it("never treats unparsable versions as older", () => {
+    expect(isBelowMinAppVersion("invalid", "1.0.0")).toBe(false);
+    expect(isBelowMinAppVersion("2.0.0", "invalid")).toBe(false);
+  });
+});
+
+describe("filterSatisfiedMinAppVersions", () => {
+  it("keeps only the minimum versions the current version meets", () => {
+    expect(
+      filterSatisfiedMinAppVersions(["1.0.0", "1.5.0", "2.0.0"], "1.5.0"),
+    ).toEqual(["1.0.0", "1.5.0"]);
+  });
+});
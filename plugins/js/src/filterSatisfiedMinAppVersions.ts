@@ -0,0 +1,38 @@
+import semver from "semver";
+
+/**
+ * Whether the current app version is older than the minimum native app version.
+ * Versions that cannot be parsed are never considered older.
+ *
+ * @param minAppVersion - Minimum native app version (e.g. 2.0.0)
+ * @param currentVersion - Current app version
+ */
+export const isBelowMinAppVersion = (
+  minAppVersion: string,
+  currentVersion: string,
+) => {
+  const minCoerce = semver.coerce(minAppVersion);
+  const currentCoerce = semver.coerce(currentVersion);
+  if (!minCoerce || !currentCoerce) {
+    return false;
+  }
+
+  return semver.lt(currentCoerce, minCoerce);
+};
+
+/**
+ * Filters minimum native app versions that the current app version meets.
+ * Update servers pass the result to SQL resolvers, which cannot compare semver themselves.
+ *
+ * @param minAppVersionList - List of minimum native app versions to filter
+ * @param currentVersion - Current app version
+ * @returns Array of minimum native app versions the current version meets
+ */
+export const filterSatisfiedMinAppVersions = (
+  minAppVersionList: string[],
+  currentVersion: string,
+) => {
+  return minAppVersionList.filter(
+    (minAppVersion) => !isBelowMinAppVersion(minAppVersion, currentVersion),
+  );
+};
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  getChannelChain,
+  getChannelMode,
+  getRollbackPolicy,
+} from "./getChannelChain";
+
+describe("getChannelChain", () => {
+  it("returns only the channel when it has no parent", () => {
+    expect(getChannelChain("production")).toEqual(["production"]);
+    expect(
+      getChannelChain("production", [
+        { channel: "app-acme", parentChannel: "production" },
+      ]),
+    ).toEqual(["production"]);
+  });
+
+  it("follows parents up to the root channel", () => {
+    expect(
+      getChannelChain("app-acme-beta", [
+        { channel: "app-acme", parentChannel: "production" },
+        { channel: "app-acme-beta", parentChannel: "app-acme" },
+        { channel: "production", parentChannel: null },
+      ]),
+    ).toEqual(["app-acme-beta", "app-acme", "production"]);
+  });
+
+  it("stops at a cycle", () => {
+    expect(
+      getChannelChain("a", [
+        { channel: "a", parentChannel: "b" },
+        { channel: "b", parentChannel: "c" },
+        { channel: "c", parentChannel: "a" },
+      ]),
+    ).toEqual(["a", "b", "c"]);
+  });
+});
+
+describe("getChannelMode", () => {
+  it("defaults to normal", () => {
+    expect(getChannelMode(["production"])).toBe("normal");
+    expect(
+      getChannelMode(
+        ["production"],
+        [{ channel: "production", parentChannel: null }],
+      ),
+    ).toBe("normal");
+  });
+
+  it("uses the closest channel that is not normal", () => {
+    const channelConfigs = [
+      { channel: "app-acme", parentChannel: "production", mode: "normal" },
+      {
+        channel: "production",
+        parentChannel: null,
+        mode: "revert-to-embedded",
+      },
+      { channel: "app-globex", parentChannel: "production", mode: "paused" },
+    ] as const;
+
+    expect(
+      getChannelMode(["app-acme", "production"], [...channelConfigs]),
+    ).toBe("revert-to-embedded");
+    expect(
+      getChannelMode(["app-globex", "production"], [...channelConfigs]),
+    ).toBe("paused");
+  });
+});
+
+describe("getRollbackPolicy", () => {
+  it("defaults to force", () => {
+    expect(getRollbackPolicy(["production"])).toBe("force");
+    expect(
+      getRollbackPolicy(
+        ["production"],
+        [{ channel: "production", parentChannel: null, rollbackPolicy: null }],
+      ),
+    ).toBe("force");
+  });
+
+  it("uses the closest channel that sets a policy", () => {
+    const channelConfigs = [
+      { channel: "app-acme", parentChannel: "production" },
+      {
+        channel: "production",
+        parentChannel: null,
+        rollbackPolicy: "next-launch",
+      },
+      {
+        channel: "app-globex",
+        parentChannel: "production",
+        rollbackPolicy: "none",
+      },
+    ] as const;
+
+    expect(
+      getRollbackPolicy(["app-acme", "production"], [...channelConfigs]),
+    ).toBe("next-launch");
+    expect(
+      getRollbackPolicy(["app-globex", "production"], [...channelConfigs]),
+    ).toBe("none");
+  });
+});
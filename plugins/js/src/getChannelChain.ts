@@ -0,0 +1,73 @@
+import type {
+  ChannelConfig,
+  ChannelMode,
+  RollbackPolicy,
+} from "@hot-updater/core";
+
+/**
+ * Resolves the channel followed by its ancestors, e.g. `["app-acme", "production"]`.
+ * A channel that appears twice ends the chain, so misconfigured cycles cannot loop forever.
+ *
+ * @param channel - Channel the device receives updates from
+ * @param channelConfigs - Channel settings holding the parent of each channel
+ */
+export const getChannelChain = (
+  channel: string,
+  channelConfigs: ChannelConfig[] = [],
+) => {
+  const chain = [channel];
+
+  let parentChannel = channelConfigs.find(
+    (c) => c.channel === channel,
+  )?.parentChannel;
+  while (parentChannel && !chain.includes(parentChannel)) {
+    chain.push(parentChannel);
+    const current = parentChannel;
+    parentChannel = channelConfigs.find(
+      (c) => c.channel === current,
+    )?.parentChannel;
+  }
+
+  return chain;
+};
+
+/**
+ * Resolves the mode of a channel chain. The closest channel that is not `normal` wins,
+ * so pausing `production` also pauses the channels inheriting from it.
+ *
+ * @param channelChain - Channel followed by its ancestors
+ * @param channelConfigs - Channel settings holding the mode of each channel
+ */
+export const getChannelMode = (
+  channelChain: string[],
+  channelConfigs: ChannelConfig[] = [],
+): ChannelMode => {
+  for (const channel of channelChain) {
+    const mode = channelConfigs.find((c) => c.channel === channel)?.mode;
+    if (mode && mode !== "normal") {
+      return mode;
+    }
+  }
+  return "normal";
+};
+
+/**
+ * Resolves the rollback policy of a channel chain. The closest channel that sets a policy wins.
+ *
+ * @param channelChain - Channel followed by its ancestors
+ * @param channelConfigs - Channel settings holding the rollback policy of each channel
+ */
+export const getRollbackPolicy = (
+  channelChain: string[],
+  channelConfigs: ChannelConfig[] = [],
+): RollbackPolicy => {
+  for (const channel of channelChain) {
+    const rollbackPolicy = channelConfigs.find(
+      (c) => c.channel === channel,
+    )?.rollbackPolicy;
+    if (rollbackPolicy) {
+      return rollbackPolicy;
+    }
+  }
+  return "force";
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { getRolloutBucket, isInRollout } from "./getRolloutBucket";
+
+describe("getRolloutBucket", () => {
+  it("should return the same bucket for the same device id", () => {
+    expect(getRolloutBucket("device-a")).toBe(getRolloutBucket("device-a"));
+  });
+
+  it("should return a bucket between 0 and 99", () => {
+    for (let i = 0; i < 1000; i++) {
+      const bucket = getRolloutBucket(`device-${i}`);
+      expect(bucket).toBeGreaterThanOrEqual(0);
+      expect(bucket).toBeLessThan(100);
+    }
+  });
+
+  it("should return known buckets", () => {
+    expect(getRolloutBucket("device-a")).toBe(53);
+    expect(getRolloutBucket("device-b")).toBe(96);
+    expect(getRolloutBucket("device-c")).toBe(15);
+  });
+
+  it("should return null when no device id is given", () => {
+    expect(getRolloutBucket(undefined)).toBeNull();
+    expect(getRolloutBucket("")).toBeNull();
+  });
+});
+
+describe("isInRollout", () => {
+  it("should include every device when the rollout is complete", () => {
+    expect(isInRollout(100, 99)).toBe(true);
+    expect(isInRollout(undefined, 99)).toBe(true);
+    expect(isInRollout(100, null)).toBe(true);
+  });
+
+  it("should include devices whose bucket is below the percentage", () => {
+    expect(isInRollout(20, 15)).toBe(true);
+    expect(isInRollout(20, 20)).toBe(false);
+    expect(isInRollout(0, 0)).toBe(false);
+  });
+
+  it("should exclude devices without a bucket from partial rollouts", () => {
+    expect(isInRollout(99, null)).toBe(false);
+  });
+});
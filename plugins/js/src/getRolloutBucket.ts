@@ -0,0 +1,39 @@
+/**
+ * Places a device into one of 100 rollout buckets (0-99).
+ * The bucket is derived from an FNV-1a hash of the device id, so the same device
+ * always lands in the same bucket and raising a rollout percentage only adds devices.
+ *
+ * @param deviceId - Stable identifier of the device
+ * @returns The bucket of the device, or null if no device id is given
+ */
+export const getRolloutBucket = (deviceId?: string | null) => {
+  if (!deviceId) {
+    return null;
+  }
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < deviceId.length; i++) {
+    hash ^= deviceId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return (hash >>> 0) % 100;
+};
+
+/**
+ * Whether a device in the given bucket is part of a rollout.
+ * Devices without a bucket only receive fully rolled out bundles.
+ *
+ * @param rolloutPercentage - Rollout percentage of the bundle (0-100)
+ * @param bucket - Bucket of the device from `getRolloutBucket`
+ */
+export const isInRollout = (
+  rolloutPercentage: number | null | undefined,
+  bucket: number | null,
+) => {
+  const percentage = rolloutPercentage ?? 100;
+  if (percentage >= 100) {
+    return true;
+  }
+  return bucket !== null && bucket < percentage;
+};
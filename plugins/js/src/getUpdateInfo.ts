@@ -1,10 +1,23 @@
 import {
   type Bundle,
+  type ChannelMode,
+  type ChannelPlatformConfig,
   type GetBundlesArgs,
   NIL_UUID,
+  type Platform,
+  type ReleaseNote,
+  type RollbackPolicy,
   type UpdateInfo,
+  type UpdateResolutionContext,
   type UpdateStatus,
 } from "@hot-updater/core";
+import { isBelowMinAppVersion } from "./filterSatisfiedMinAppVersions";
+import {
+  getChannelChain,
+  getChannelMode,
+  getRollbackPolicy,
+} from "./getChannelChain";
+import { getRolloutBucket, isInRollout } from "./getRolloutBucket";
 import { semverSatisfies } from "./semverSatisfies";
 
 const INIT_BUNDLE_ROLLBACK_UPDATE_INFO: UpdateInfo = {
@@ -14,31 +27,289 @@ const INIT_BUNDLE_ROLLBACK_UPDATE_INFO: UpdateInfo = {
   status: "ROLLBACK",
 };
 
-const makeResponse = (bundle: Bundle, status: UpdateStatus) => ({
-  id: bundle.id,
+// A promoted bundle runs the JS and storage object of its source bundle, so apps know it by the source id
+const getAppBundleId = (bundle: Pick<Bundle, "id" | "sourceBundleId">) =>
+  bundle.sourceBundleId ?? bundle.id;
+
+const makeResponse = (bundle: Bundle, status: UpdateStatus): UpdateInfo => ({
+  id: getAppBundleId(bundle),
   message: bundle.message,
   shouldForceUpdate: status === "ROLLBACK" ? true : bundle.shouldForceUpdate,
   status,
+  ...(bundle.metadata ? { metadata: bundle.metadata } : {}),
 });
 
+/**
+ * Whether a bundle can run on the native build of the app.
+ * A bundle without a fingerprint is matched by its target app version alone. A fingerprinted bundle
+ * only runs on builds with the same fingerprint, so apps built without one never receive it.
+ */
+export const isFingerprintCompatible = (
+  bundleFingerprintHash: string | null | undefined,
+  fingerprintHash: string | null | undefined,
+) => !bundleFingerprintHash || bundleFingerprintHash === fingerprintHash;
+
+/**
+ * Resolves a bundle the device is explicitly assigned to by a device override or a channel pin,
+ * bypassing the channel, enabled and rollout conditions.
+ * The bundle must still target the platform, app version and fingerprint of the device.
+ * Returns undefined when the bundle cannot run on the device, so the caller falls back to the normal resolution.
+ */
+export const resolveAssignedBundle = (
+  assignedBundle: Bundle | undefined,
+  {
+    platform,
+    bundleId,
+    appVersion,
+    minBundleId = NIL_UUID,
+    fingerprintHash,
+  }: Pick<
+    GetBundlesArgs,
+    "platform" | "bundleId" | "appVersion" | "minBundleId" | "fingerprintHash"
+  >,
+): UpdateInfo | null | undefined => {
+  if (
+    !assignedBundle ||
+    assignedBundle.platform !== platform ||
+    !semverSatisfies(assignedBundle.targetAppVersion, appVersion) ||
+    !isFingerprintCompatible(assignedBundle.fingerprintHash, fingerprintHash) ||
+    (minBundleId && assignedBundle.id.localeCompare(minBundleId) < 0)
+  ) {
+    return undefined;
+  }
+
+  const order = assignedBundle.id.localeCompare(bundleId);
+  if (order === 0) {
+    return null;
+  }
+  return makeResponse(assignedBundle, order > 0 ? "UPDATE" : "ROLLBACK");
+};
+
+/**
+ * Applies the kill switch of a channel.
+ * Returns undefined in `normal` mode, so the caller continues with the normal resolution.
+ */
+export const resolveChannelMode = (
+  mode: ChannelMode,
+  {
+    bundleId,
+    minBundleId = NIL_UUID,
+  }: Pick<GetBundlesArgs, "bundleId" | "minBundleId">,
+): UpdateInfo | null | undefined => {
+  switch (mode) {
+    case "paused":
+      return null;
+    case "revert-to-embedded":
+      return bundleId !== NIL_UUID && bundleId.localeCompare(minBundleId) > 0
+        ? INIT_BUNDLE_ROLLBACK_UPDATE_INFO
+        : null;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Applies the rollback policy of a channel to a rollback caused by the current bundle being disabled or deleted.
+ * Explicit rollbacks, e.g. to a pinned bundle, are not affected.
+ */
+export const applyRollbackPolicy = (
+  updateInfo: UpdateInfo,
+  rollbackPolicy: RollbackPolicy,
+): UpdateInfo | null => {
+  switch (rollbackPolicy) {
+    case "none":
+      return null;
+    case "next-launch":
+      return { ...updateInfo, shouldForceUpdate: false };
+    default:
+      return updateInfo;
+  }
+};
+
+/**
+ * Finds the channel setting that applies to the device, e.g. the minimum native app version.
+ * The closest channel in the chain that defines `key` wins.
+ */
+export const findChannelPlatformConfig = (
+  channelPlatformConfigs: ChannelPlatformConfig[],
+  channelChain: string[],
+  platform: Platform,
+  key: "minAppVersion" | "pinnedBundleId",
+) => {
+  for (const channel of channelChain) {
+    const channelPlatformConfig = channelPlatformConfigs.find(
+      (c) => c.channel === channel && c.platform === platform && c[key],
+    );
+    if (channelPlatformConfig) {
+      return channelPlatformConfig;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Tells apps older than the minimum native app version to update from the store.
+ * Returns null when the app may keep receiving bundles.
+ */
+export const resolveNativeUpdateRequired = (
+  channelPlatformConfig:
+    | Pick<ChannelPlatformConfig, "minAppVersion" | "storeUrl">
+    | null
+    | undefined,
+  { bundleId, appVersion }: Pick<GetBundlesArgs, "bundleId" | "appVersion">,
+): UpdateInfo | null => {
+  if (
+    !channelPlatformConfig?.minAppVersion ||
+    !isBelowMinAppVersion(channelPlatformConfig.minAppVersion, appVersion)
+  ) {
+    return null;
+  }
+
+  return {
+    id: bundleId,
+    message: null,
+    shouldForceUpdate: true,
+    status: "NATIVE_UPDATE_REQUIRED",
+    storeUrl: channelPlatformConfig.storeUrl,
+  };
+};
+
+/**
+ * Lists the messages of the bundles after the current bundle up to the target bundle, oldest first,
+ * so a device skipping several bundles can show every change.
+ */
+export const collectReleaseNotes = (
+  candidateBundles: Bundle[],
+  bundleId: string,
+  targetBundleId: string,
+): ReleaseNote[] =>
+  candidateBundles
+    .filter(
+      (b) =>
+        b.id.localeCompare(bundleId) > 0 &&
+        b.id.localeCompare(targetBundleId) <= 0,
+    )
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((b) => ({ id: getAppBundleId(b), message: b.message }));
+
+/**
+ * Resolves the bundle id reported by the app to the bundle it runs in the channel chain.
+ * Apps running a promoted bundle report the id of its source bundle, which is compiled into the JS.
+ */
+export const resolveCurrentBundleId = (
+  bundles: Bundle[],
+  bundleId: string,
+  platform: Platform,
+  channelChain: string[],
+) => {
+  let promotedBundle: Bundle | undefined;
+  for (const b of bundles) {
+    if (
+      b.sourceBundleId === bundleId &&
+      b.platform === platform &&
+      channelChain.includes(b.channel) &&
+      (!promotedBundle || b.id.localeCompare(promotedBundle.id) > 0)
+    ) {
+      promotedBundle = b;
+    }
+  }
+  return promotedBundle?.id ?? bundleId;
+};
+
 export const getUpdateInfo = async (
   bundles: Bundle[],
   {
     platform,
-    bundleId,
+    bundleId: reportedBundleId,
     appVersion,
     minBundleId = NIL_UUID,
-    channel = "production",
+    channel: requestedChannel = "production",
+    deviceId,
+    fingerprintHash,
+    includeReleaseNotes = false,
   }: GetBundlesArgs,
+  {
+    deviceOverrides = [],
+    channelConfigs = [],
+    channelPlatformConfigs = [],
+  }: UpdateResolutionContext = {},
 ): Promise<UpdateInfo | null> => {
-  // Initial filtering: apply platform, channel, semver conditions, enabled status, and minBundleId condition
+  // Device overrides take precedence over the channel reported by the app
+  const deviceOverride = deviceId
+    ? deviceOverrides.find((o) => o.deviceId === deviceId)
+    : undefined;
+
+  const channel = deviceOverride?.channel ?? requestedChannel;
+  const channelChain = getChannelChain(channel, channelConfigs);
+  const bundleId = resolveCurrentBundleId(
+    bundles,
+    reportedBundleId,
+    platform,
+    channelChain,
+  );
+
+  // The kill switch of the channel wins over every other setting
+  const channelModeInfo = resolveChannelMode(
+    getChannelMode(channelChain, channelConfigs),
+    { bundleId, minBundleId },
+  );
+  if (channelModeInfo !== undefined) {
+    return channelModeInfo;
+  }
+
+  if (deviceOverride?.bundleId) {
+    const assignedUpdateInfo = resolveAssignedBundle(
+      bundles.find((b) => b.id === deviceOverride.bundleId),
+      { platform, bundleId, appVersion, minBundleId, fingerprintHash },
+    );
+    if (assignedUpdateInfo !== undefined) {
+      return assignedUpdateInfo;
+    }
+  }
+
+  const nativeUpdateRequiredInfo = resolveNativeUpdateRequired(
+    findChannelPlatformConfig(
+      channelPlatformConfigs,
+      channelChain,
+      platform,
+      "minAppVersion",
+    ),
+    { bundleId: reportedBundleId, appVersion },
+  );
+  if (nativeUpdateRequiredInfo) {
+    return nativeUpdateRequiredInfo;
+  }
+
+  // A pinned bundle is served like an assigned one, ignoring newer bundles of the channel
+  const pinnedBundleId = findChannelPlatformConfig(
+    channelPlatformConfigs,
+    channelChain,
+    platform,
+    "pinnedBundleId",
+  )?.pinnedBundleId;
+  if (pinnedBundleId) {
+    const pinnedUpdateInfo = resolveAssignedBundle(
+      bundles.find((b) => b.id === pinnedBundleId),
+      { platform, bundleId, appVersion, minBundleId, fingerprintHash },
+    );
+    if (pinnedUpdateInfo !== undefined) {
+      return pinnedUpdateInfo;
+    }
+  }
+
+  const rollbackPolicy = getRollbackPolicy(channelChain, channelConfigs);
+  const rolloutBucket = getRolloutBucket(deviceId);
+
+  // Initial filtering: apply platform, channel chain, semver conditions, fingerprint, enabled status, rollout, and minBundleId condition
   const candidateBundles: Bundle[] = [];
   for (const b of bundles) {
     if (
       b.platform !== platform ||
-      b.channel !== channel ||
+      !channelChain.includes(b.channel) ||
       !semverSatisfies(b.targetAppVersion, appVersion) ||
+      !isFingerprintCompatible(b.fingerprintHash, fingerprintHash) ||
       !b.enabled ||
+      !isInRollout(b.rolloutPercentage, rolloutBucket) ||
       (minBundleId && b.id.localeCompare(minBundleId) < 0)
     ) {
       continue;
@@ -53,7 +324,10 @@ export const getUpdateInfo = async (
     ) {
       return null;
     }
-    return INIT_BUNDLE_ROLLBACK_UPDATE_INFO;
+    return applyRollbackPolicy(
+      INIT_BUNDLE_ROLLBACK_UPDATE_INFO,
+      rollbackPolicy,
+    );
   }
 
   // Determine the latest bundle, update candidate, rollback candidate, and current bundle in a single iteration
@@ -89,10 +363,22 @@ export const getUpdateInfo = async (
     }
   }
 
+  const makeUpdateResponse = (target: Bundle): UpdateInfo =>
+    includeReleaseNotes
+      ? {
+          ...makeResponse(target, "UPDATE"),
+          releaseNotes: collectReleaseNotes(
+            candidateBundles,
+            bundleId,
+            target.id,
+          ),
+        }
+      : makeResponse(target, "UPDATE");
+
   if (bundleId === NIL_UUID) {
     // For NIL_UUID, return an update if there's a latest candidate
     if (latestCandidate && latestCandidate.id.localeCompare(bundleId) > 0) {
-      return makeResponse(latestCandidate, "UPDATE");
+      return makeUpdateResponse(latestCandidate);
     }
     return null;
   }
@@ -103,21 +389,24 @@ export const getUpdateInfo = async (
       latestCandidate &&
       latestCandidate.id.localeCompare(currentBundle.id) > 0
     ) {
-      return makeResponse(latestCandidate, "UPDATE");
+      return makeUpdateResponse(latestCandidate);
     }
     return null;
   }
 
   // If current bundle doesn't exist, prioritize update candidate, then rollback candidate
   if (updateCandidate) {
-    return makeResponse(updateCandidate, "UPDATE");
+    return makeUpdateResponse(updateCandidate);
   }
   if (rollbackCandidate) {
-    return makeResponse(rollbackCandidate, "ROLLBACK");
+    return applyRollbackPolicy(
+      makeResponse(rollbackCandidate, "ROLLBACK"),
+      rollbackPolicy,
+    );
   }
 
   if (minBundleId && bundleId.localeCompare(minBundleId) <= 0) {
     return null;
   }
-  return INIT_BUNDLE_ROLLBACK_UPDATE_INFO;
+  return applyRollbackPolicy(INIT_BUNDLE_ROLLBACK_UPDATE_INFO, rollbackPolicy);
 };
@@ -1,5 +1,8 @@
 export * from "./getUpdateInfo";
 export * from "./semverSatisfies";
 export * from "./filterCompatibleAppVersions";
+export * from "./filterSatisfiedMinAppVersions";
+export * from "./getRolloutBucket";
+export * from "./getChannelChain";
 export * from "./withJwtSignedUrl";
 export * from "./verifyJwtSignedUrl";
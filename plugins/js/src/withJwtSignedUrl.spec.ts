@@ -33,6 +33,21 @@ describe("withJwtSignedUrl", () => {
     expect(result?.someProperty).toBe("value");
   });
 
+  it("should return data with fileUrl set to null when a native update is required", async () => {
+    const data = {
+      id: "123e4567-e89b-12d3-a456-426614174000",
+      status: "NATIVE_UPDATE_REQUIRED",
+    };
+
+    const result = await withJwtSignedUrl({
+      data,
+      reqUrl,
+      jwtSecret,
+    });
+
+    expect(result).toStrictEqual({ ...data, fileUrl: null });
+  });
+
   it("should generate a JWT signed URL when data is valid", async () => {
     const data = {
       id: "123e4567-e89b-12d3-a456-426614174000",
@@ -10,7 +10,9 @@ import { SignJWT } from "jose";
  * @param {string} options.jwtSecret - Secret key for JWT signing
  * @returns {Promise<T|null>} - Update response object with fileUrl or null
  */
-export const withJwtSignedUrl = async <T extends { id: string }>({
+export const withJwtSignedUrl = async <
+  T extends { id: string; status?: string },
+>({
   data,
   reqUrl,
   jwtSecret,
@@ -23,7 +25,8 @@ export const withJwtSignedUrl = async <T extends { id: string }>({
     return null;
   }
 
-  if (data.id === NIL_UUID) {
+  // Nothing to download: the app resets to the built-in bundle or must be updated from the store
+  if (data.id === NIL_UUID || data.status === "NATIVE_UPDATE_REQUIRED") {
     return { ...data, fileUrl: null };
   }
 
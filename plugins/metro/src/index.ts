@@ -131,7 +131,8 @@ export const metro =
     } = config;
     return {
       build: async ({ platform, channel }) => {
-        const buildPath = path.join(cwd, outDir);
+        // Platforms can be built in parallel, so each one gets its own directory
+        const buildPath = path.join(cwd, outDir, platform);
 
         await fs.rm(buildPath, { recursive: true, force: true });
         await fs.mkdir(buildPath, { recursive: true });
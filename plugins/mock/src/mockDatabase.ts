@@ -1,20 +1,32 @@
 import type {
   BasePluginArgs,
   Bundle,
+  ChannelConfig,
+  ChannelPlatformConfig,
   DatabasePlugin,
   DatabasePluginHooks,
+  DeviceOverride,
+  Platform,
 } from "@hot-updater/plugin-core";
 import { minMax, sleep } from "./util/utils";
 
 export interface MockDatabaseConfig {
   latency: { min: number; max: number };
   initialBundles?: Bundle[];
+  initialDeviceOverrides?: DeviceOverride[];
+  initialChannelConfigs?: ChannelConfig[];
+  initialChannelPlatformConfigs?: ChannelPlatformConfig[];
 }
 
 export const mockDatabase =
   (config: MockDatabaseConfig, hooks?: DatabasePluginHooks) =>
   (_: BasePluginArgs): DatabasePlugin => {
     const bundles: Bundle[] = config.initialBundles ?? [];
+    const deviceOverrides: DeviceOverride[] =
+      config.initialDeviceOverrides ?? [];
+    const channelConfigs: ChannelConfig[] = config.initialChannelConfigs ?? [];
+    const channelPlatformConfigs: ChannelPlatformConfig[] =
+      config.initialChannelPlatformConfigs ?? [];
     const latency = config.latency;
 
     return {
@@ -63,5 +75,81 @@ export const mockDatabase =
           .map((b) => b.channel)
           .filter((c, i, self) => self.indexOf(c) === i);
       },
+      async getDeviceOverrides() {
+        await sleep(minMax(latency.min, latency.max));
+        return deviceOverrides;
+      },
+      async setDeviceOverride(deviceOverride: DeviceOverride) {
+        await sleep(minMax(latency.min, latency.max));
+        const targetIndex = deviceOverrides.findIndex(
+          (o) => o.deviceId === deviceOverride.deviceId,
+        );
+        if (targetIndex === -1) {
+          deviceOverrides.push(deviceOverride);
+        } else {
+          deviceOverrides[targetIndex] = deviceOverride;
+        }
+      },
+      async deleteDeviceOverride(deviceId: string) {
+        await sleep(minMax(latency.min, latency.max));
+        const targetIndex = deviceOverrides.findIndex(
+          (o) => o.deviceId === deviceId,
+        );
+        if (targetIndex !== -1) {
+          deviceOverrides.splice(targetIndex, 1);
+        }
+      },
+      async getChannelConfigs() {
+        await sleep(minMax(latency.min, latency.max));
+        return channelConfigs;
+      },
+      async setChannelConfig(channelConfig: ChannelConfig) {
+        await sleep(minMax(latency.min, latency.max));
+        const targetIndex = channelConfigs.findIndex(
+          (c) => c.channel === channelConfig.channel,
+        );
+        if (targetIndex === -1) {
+          channelConfigs.push(channelConfig);
+        } else {
+          channelConfigs[targetIndex] = channelConfig;
+        }
+      },
+      async deleteChannelConfig(channel: string) {
+        await sleep(minMax(latency.min, latency.max));
+        const targetIndex = channelConfigs.findIndex(
+          (c) => c.channel === channel,
+        );
+        if (targetIndex !== -1) {
+          channelConfigs.splice(targetIndex, 1);
+        }
+      },
+      async getChannelPlatformConfigs() {
+        await sleep(minMax(latency.min, latency.max));
+        return channelPlatformConfigs;
+      },
+      async setChannelPlatformConfig(
+        channelPlatformConfig: ChannelPlatformConfig,
+      ) {
+        await sleep(minMax(latency.min, latency.max));
+        const targetIndex = channelPlatformConfigs.findIndex(
+          (c) =>
+            c.channel === channelPlatformConfig.channel &&
+            c.platform === channelPlatformConfig.platform,
+        );
+        if (targetIndex === -1) {
+          channelPlatformConfigs.push(channelPlatformConfig);
+        } else {
+          channelPlatformConfigs[targetIndex] = channelPlatformConfig;
+        }
+      },
+      async deleteChannelPlatformConfig(channel: string, platform: Platform) {
+        await sleep(minMax(latency.min, latency.max));
+        const targetIndex = channelPlatformConfigs.findIndex(
+          (c) => c.channel === channel && c.platform === platform,
+        );
+        if (targetIndex !== -1) {
+          channelPlatformConfigs.splice(targetIndex, 1);
+        }
+      },
     };
   };
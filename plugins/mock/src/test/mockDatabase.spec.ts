@@ -113,4 +113,31 @@ describe("mockDatabase", () => {
 
     expect(bundles).toEqual(DEFAULT_BUNDLES_MOCK);
   });
+
+  it("should set and delete device overrides", async () => {
+    const plugin = mockDatabase({ latency: DEFAULT_LATENCY })({ cwd: "" });
+
+    await plugin.setDeviceOverride?.({
+      deviceId: "device-a",
+      channel: "beta",
+      bundleId: null,
+    });
+    await plugin.setDeviceOverride?.({
+      deviceId: "device-a",
+      channel: null,
+      bundleId: DEFAULT_BUNDLES_MOCK[0].id,
+    });
+
+    expect(await plugin.getDeviceOverrides?.()).toEqual([
+      {
+        deviceId: "device-a",
+        channel: null,
+        bundleId: DEFAULT_BUNDLES_MOCK[0].id,
+      },
+    ]);
+
+    await plugin.deleteDeviceOverride?.("device-a");
+
+    expect(await plugin.getDeviceOverrides?.()).toEqual([]);
+  });
 });
@@ -13,7 +13,19 @@ export interface BaseDatabaseUtils {
 export interface AbstractDatabasePlugin
   extends Pick<
     DatabasePlugin,
-    "getBundleById" | "getBundles" | "getChannels" | "onUnmount"
+    | "getBundleById"
+    | "getBundles"
+    | "getChannels"
+    | "getDeviceOverrides"
+    | "setDeviceOverride"
+    | "deleteDeviceOverride"
+    | "getChannelConfigs"
+    | "setChannelConfig"
+    | "deleteChannelConfig"
+    | "getChannelPlatformConfigs"
+    | "setChannelPlatformConfig"
+    | "deleteChannelPlatformConfig"
+    | "onUnmount"
   > {
   commitBundle: ({
     changedSets,
@@ -25,6 +37,15 @@ export interface AbstractDatabasePlugin
   }) => Promise<void>;
 }
 
+// Metadata is replaced as a whole, so removed keys do not survive a deep merge
+const mergeBundle = (bundle: Bundle, newBundle: Partial<Bundle>): Bundle => {
+  const mergedBundle = merge(bundle, newBundle);
+  if ("metadata" in newBundle) {
+    mergedBundle.metadata = newBundle.metadata;
+  }
+  return mergedBundle;
+};
+
 /**
  * Creates a database plugin with the given implementation.
  *
@@ -88,7 +109,7 @@ export function createDatabasePlugin(
     async updateBundle(targetBundleId: string, newBundle: Partial<Bundle>) {
       const pendingChange = changedMap.get(targetBundleId);
       if (pendingChange) {
-        const updatedData = merge(pendingChange.data, newBundle);
+        const updatedData = mergeBundle(pendingChange.data, newBundle);
         changedMap.set(targetBundleId, {
           operation: pendingChange.operation,
           data: updatedData,
@@ -101,7 +122,7 @@ export function createDatabasePlugin(
         throw new Error("targetBundleId not found");
       }
 
-      const updatedBundle = merge(currentBundle, newBundle);
+      const updatedBundle = mergeBundle(currentBundle, newBundle);
       markChanged("update", updatedBundle);
     },
     async appendBundle(inputBundle: Bundle) {
@@ -1,6 +1,18 @@
-import type { Bundle, Platform } from "@hot-updater/core";
+import type {
+  Bundle,
+  ChannelConfig,
+  ChannelPlatformConfig,
+  DeviceOverride,
+  Platform,
+} from "@hot-updater/core";
 
-export type { Platform, Bundle } from "@hot-updater/core";
+export type {
+  Platform,
+  Bundle,
+  ChannelConfig,
+  ChannelPlatformConfig,
+  DeviceOverride,
+} from "@hot-updater/core";
 
 export interface BasePluginArgs {
   cwd: string;
@@ -27,6 +39,38 @@ export interface DatabasePlugin {
   ) => Promise<void>;
   appendBundle: (bundles: Bundle) => Promise<void>;
   commitBundle: () => Promise<void>;
+  /**
+   * Returns all device specific channel or bundle assignments.
+   */
+  getDeviceOverrides?: () => Promise<DeviceOverride[]>;
+  /**
+   * Creates or replaces the assignment of `deviceOverride.deviceId`.
+   */
+  setDeviceOverride?: (deviceOverride: DeviceOverride) => Promise<void>;
+  deleteDeviceOverride?: (deviceId: string) => Promise<void>;
+  /**
+   * Returns the settings of all configured channels.
+   */
+  getChannelConfigs?: () => Promise<ChannelConfig[]>;
+  /**
+   * Creates or replaces the settings of `channelConfig.channel`.
+   */
+  setChannelConfig?: (channelConfig: ChannelConfig) => Promise<void>;
+  deleteChannelConfig?: (channel: string) => Promise<void>;
+  /**
+   * Returns the per-platform settings of all configured channels.
+   */
+  getChannelPlatformConfigs?: () => Promise<ChannelPlatformConfig[]>;
+  /**
+   * Creates or replaces the settings of `channelPlatformConfig.channel` for `channelPlatformConfig.platform`.
+   */
+  setChannelPlatformConfig?: (
+    channelPlatformConfig: ChannelPlatformConfig,
+  ) => Promise<void>;
+  deleteChannelPlatformConfig?: (
+    channel: string,
+    platform: Platform,
+  ) => Promise<void>;
   onUnmount?: () => Promise<void>;
   name: string;
 }
@@ -11,7 +11,11 @@ CREATE TABLE bundles (
     file_hash text NOT NULL,
     git_commit_hash text,
     message text,
-    channel text NOT NULL DEFAULT 'production'
+    channel text NOT NULL DEFAULT 'production',
+    rollout_percentage integer NOT NULL DEFAULT 100 CHECK (rollout_percentage BETWEEN 0 AND 100),
+    fingerprint_hash text,
+    metadata jsonb,
+    source_bundle_id uuid
 );
 
 CREATE INDEX bundles_target_app_version_idx ON bundles(target_app_version);
@@ -0,0 +1,10 @@
+-- HotUpdater.channel_platforms
+
+CREATE TABLE channel_platforms (
+    channel text NOT NULL,
+    platform platforms NOT NULL,
+    min_app_version text,
+    store_url text,
+    pinned_bundle_id uuid,
+    PRIMARY KEY (channel, platform)
+);
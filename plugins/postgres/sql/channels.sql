@@ -0,0 +1,8 @@
+-- HotUpdater.channels
+
+CREATE TABLE channels (
+    channel text PRIMARY KEY,
+    parent_channel text,
+    mode text NOT NULL DEFAULT 'normal' CHECK (mode IN ('normal', 'paused', 'revert-to-embedded')),
+    rollback_policy text CHECK (rollback_policy IN ('force', 'next-launch', 'none'))
+);
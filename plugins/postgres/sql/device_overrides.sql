@@ -0,0 +1,7 @@
+-- HotUpdater.device_overrides
+
+CREATE TABLE device_overrides (
+    device_id text PRIMARY KEY,
+    channel text,
+    bundle_id uuid
+);
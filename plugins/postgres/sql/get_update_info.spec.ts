@@ -1,12 +1,22 @@
 import { PGlite } from "@electric-sql/pglite";
 import {
   type Bundle,
+  type BundleMetadata,
+  type ChannelConfig,
+  type ChannelPlatformConfig,
+  type DeviceOverride,
   type GetBundlesArgs,
   NIL_UUID,
+  type ReleaseNote,
   type UpdateInfo,
+  type UpdateResolutionContext,
 } from "@hot-updater/core";
 import { setupGetUpdateInfoTestSuite } from "@hot-updater/core/test-utils";
-import { filterCompatibleAppVersions } from "@hot-updater/js";
+import {
+  filterCompatibleAppVersions,
+  filterSatisfiedMinAppVersions,
+  getRolloutBucket,
+} from "@hot-updater/js";
 import camelcaseKeys from "camelcase-keys";
 import { afterAll, beforeEach, describe } from "vitest";
 import { prepareSql } from "./prepareSql";
@@ -15,7 +25,8 @@ const createInsertBundleQuery = (bundle: Bundle) => {
   return `
     INSERT INTO bundles (
       id, file_hash, platform, target_app_version,
-      should_force_update, enabled, git_commit_hash, message, channel
+      should_force_update, enabled, git_commit_hash, message, channel,
+      rollout_percentage, fingerprint_hash, metadata, source_bundle_id
     ) VALUES (
       '${bundle.id}',
       '${bundle.fileHash}',
@@ -25,7 +36,46 @@ const createInsertBundleQuery = (bundle: Bundle) => {
       ${bundle.enabled},
       ${bundle.gitCommitHash ? `'${bundle.gitCommitHash}'` : "null"},
       ${bundle.message ? `'${bundle.message}'` : "null"},
-      '${bundle.channel}'
+      '${bundle.channel}',
+      ${bundle.rolloutPercentage ?? 100},
+      ${bundle.fingerprintHash ? `'${bundle.fingerprintHash}'` : "null"},
+      ${bundle.metadata ? `'${JSON.stringify(bundle.metadata)}'` : "null"},
+      ${bundle.sourceBundleId ? `'${bundle.sourceBundleId}'` : "null"}
+    );
+  `;
+};
+
+const createInsertDeviceOverrideQuery = (deviceOverride: DeviceOverride) => {
+  return `
+    INSERT INTO device_overrides (device_id, channel, bundle_id) VALUES (
+      '${deviceOverride.deviceId}',
+      ${deviceOverride.channel ? `'${deviceOverride.channel}'` : "null"},
+      ${deviceOverride.bundleId ? `'${deviceOverride.bundleId}'` : "null"}
+    );
+  `;
+};
+
+const createInsertChannelConfigQuery = (channelConfig: ChannelConfig) => {
+  return `
+    INSERT INTO channels (channel, parent_channel, mode, rollback_policy) VALUES (
+      '${channelConfig.channel}',
+      ${channelConfig.parentChannel ? `'${channelConfig.parentChannel}'` : "null"},
+      '${channelConfig.mode ?? "normal"}',
+      ${channelConfig.rollbackPolicy ? `'${channelConfig.rollbackPolicy}'` : "null"}
+    );
+  `;
+};
+
+const createInsertChannelPlatformConfigQuery = (
+  channelPlatformConfig: ChannelPlatformConfig,
+) => {
+  return `
+    INSERT INTO channel_platforms (channel, platform, min_app_version, store_url, pinned_bundle_id) VALUES (
+      '${channelPlatformConfig.channel}',
+      '${channelPlatformConfig.platform}',
+      ${channelPlatformConfig.minAppVersion ? `'${channelPlatformConfig.minAppVersion}'` : "null"},
+      ${channelPlatformConfig.storeUrl ? `'${channelPlatformConfig.storeUrl}'` : "null"},
+      ${channelPlatformConfig.pinnedBundleId ? `'${channelPlatformConfig.pinnedBundleId}'` : "null"}
     );
   `;
 };
@@ -40,9 +90,28 @@ const createGetUpdateInfo =
       platform,
       minBundleId = NIL_UUID,
       channel = "production",
+      deviceId,
+      fingerprintHash,
+      includeReleaseNotes,
     }: GetBundlesArgs,
+    {
+      deviceOverrides = [],
+      channelConfigs = [],
+      channelPlatformConfigs = [],
+    }: UpdateResolutionContext = {},
   ): Promise<UpdateInfo | null> => {
     await db.exec(createInsertBundleQuerys(bundles));
+    await db.exec(
+      deviceOverrides.map(createInsertDeviceOverrideQuery).join("\n"),
+    );
+    await db.exec(
+      channelConfigs.map(createInsertChannelConfigQuery).join("\n"),
+    );
+    await db.exec(
+      channelPlatformConfigs
+        .map(createInsertChannelPlatformConfigQuery)
+        .join("\n"),
+    );
 
     const { rows: appVersionList } = await db.query<{
       target_app_version: string;
@@ -57,11 +126,28 @@ const createGetUpdateInfo =
       appVersion,
     );
 
+    const { rows: minAppVersionList } = await db.query<{
+      min_app_version: string;
+    }>(
+      `
+      SELECT DISTINCT min_app_version FROM channel_platforms
+      WHERE platform = '${platform}' AND min_app_version IS NOT NULL;
+      `,
+    );
+
+    const satisfiedMinAppVersionList = filterSatisfiedMinAppVersions(
+      minAppVersionList.map((row) => row.min_app_version),
+      appVersion,
+    );
+
     const result = await db.query<{
       id: string;
       should_force_update: boolean;
       message: string;
       status: string;
+      store_url: string | null;
+      release_notes: ReleaseNote[] | null;
+      metadata: BundleMetadata | null;
     }>(
       `
       SELECT * FROM get_update_info(
@@ -70,14 +156,28 @@ const createGetUpdateInfo =
         '${bundleId}',
         '${minBundleId ?? NIL_UUID}',
         '${channel}',
-        ARRAY[${targetAppVersionList.map((v) => `'${v}'`).join(",")}]::text[]
+        ARRAY[${targetAppVersionList.map((v) => `'${v}'`).join(",")}]::text[],
+        ${getRolloutBucket(deviceId) ?? "NULL"},
+        ${deviceId ? `'${deviceId}'` : "NULL"},
+        ${fingerprintHash ? `'${fingerprintHash}'` : "NULL"},
+        ARRAY[${satisfiedMinAppVersionList.map((v) => `'${v}'`).join(",")}]::text[],
+        ${includeReleaseNotes ? "TRUE" : "FALSE"}
       );
       `,
     );
 
-    return result.rows[0]
-      ? (camelcaseKeys(result.rows[0]) as UpdateInfo)
-      : null;
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    const { store_url, release_notes, metadata, ...updateInfo } = row;
+    return camelcaseKeys({
+      ...updateInfo,
+      ...(updateInfo.status === "NATIVE_UPDATE_REQUIRED" ? { store_url } : {}),
+      ...(release_notes ? { release_notes } : {}),
+      ...(metadata ? { metadata } : {}),
+    }) as UpdateInfo;
   };
 
 const createInsertBundleQuerys = (bundles: Bundle[]) => {
@@ -93,6 +193,9 @@ const getUpdateInfo = createGetUpdateInfo(db);
 describe("getUpdateInfo", () => {
   beforeEach(async () => {
     await db.exec("DELETE FROM bundles");
+    await db.exec("DELETE FROM device_overrides");
+    await db.exec("DELETE FROM channels");
+    await db.exec("DELETE FROM channel_platforms");
   });
 
   afterAll(async () => {
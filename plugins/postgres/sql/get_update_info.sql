@@ -6,48 +6,232 @@ CREATE OR REPLACE FUNCTION get_update_info (
     bundle_id  uuid,
     min_bundle_id uuid,
     target_channel text,
-    target_app_version_list text[]
+    target_app_version_list text[],
+    device_bucket integer DEFAULT NULL,
+    device_id text DEFAULT NULL,
+    fingerprint_hash text DEFAULT NULL,
+    min_app_version_list text[] DEFAULT NULL,
+    include_release_notes boolean DEFAULT FALSE
 )
 RETURNS TABLE (
     id            uuid,
     should_force_update  boolean,
     message       text,
-    status        text
+    status        text,
+    store_url     text,
+    release_notes jsonb,
+    metadata      jsonb
 )
 LANGUAGE plpgsql
 AS
 $$
 DECLARE
     NIL_UUID CONSTANT uuid := '00000000-0000-0000-0000-000000000000';
+    override_channel text;
+    override_bundle_id uuid;
+    channel_chain text[];
+    required_min_app_version text;
+    required_store_url text;
+    pinned_bundle_id uuid;
+    channel_mode text;
+    channel_rollback_policy text;
+    reported_bundle_id uuid := bundle_id;
+    promoted_bundle_id uuid;
 BEGIN
+    -- Device overrides take precedence over the channel reported by the app
+    SELECT o.channel, o.bundle_id
+    INTO override_channel, override_bundle_id
+    FROM device_overrides o
+    WHERE o.device_id = get_update_info.device_id;
+
+    target_channel := COALESCE(override_channel, target_channel);
+
+    -- The channel followed by its ancestors, e.g. app-acme -> production
+    WITH RECURSIVE chain(channel) AS (
+        SELECT target_channel
+        UNION
+        SELECT c.parent_channel
+        FROM channels c
+        JOIN chain ON c.channel = chain.channel
+        WHERE c.parent_channel IS NOT NULL
+    )
+    SELECT array_agg(chain.channel)
+    INTO channel_chain
+    FROM chain;
+
+    -- Apps running a promoted bundle report the id of its source bundle, which is compiled into the JS
+    SELECT b.id
+    INTO promoted_bundle_id
+    FROM bundles b
+    WHERE b.source_bundle_id = reported_bundle_id
+      AND b.platform = app_platform
+      AND b.channel = ANY(channel_chain)
+    ORDER BY b.id DESC
+    LIMIT 1;
+
+    bundle_id := COALESCE(promoted_bundle_id, bundle_id);
+
+    -- Kill switch: the closest channel in the chain that is not in normal mode decides
+    SELECT c.mode
+    INTO channel_mode
+    FROM channels c
+    WHERE c.channel = ANY(channel_chain)
+      AND c.mode <> 'normal'
+    ORDER BY array_position(channel_chain, c.channel)
+    LIMIT 1;
+
+    IF channel_mode = 'paused' THEN
+        RETURN;
+    END IF;
+
+    IF channel_mode = 'revert-to-embedded' THEN
+        RETURN QUERY
+        SELECT
+            NIL_UUID,
+            TRUE,
+            NULL::text,
+            'ROLLBACK'::text,
+            NULL::text,
+            NULL::jsonb,
+            NULL::jsonb
+        WHERE bundle_id != NIL_UUID
+          AND bundle_id > min_bundle_id;
+        RETURN;
+    END IF;
+
+    IF override_bundle_id IS NOT NULL AND EXISTS (
+        SELECT 1
+        FROM bundles b
+        WHERE b.id = override_bundle_id
+          AND b.platform = app_platform
+          AND b.target_app_version = ANY(target_app_version_list)
+          AND (b.fingerprint_hash IS NULL OR b.fingerprint_hash = get_update_info.fingerprint_hash)
+          AND b.id >= min_bundle_id
+    ) THEN
+        RETURN QUERY
+        SELECT
+            COALESCE(b.source_bundle_id, b.id),
+            CASE WHEN b.id > bundle_id THEN b.should_force_update ELSE TRUE END,
+            b.message,
+            CASE WHEN b.id > bundle_id THEN 'UPDATE' ELSE 'ROLLBACK' END,
+            NULL::text,
+            NULL::jsonb,
+            b.metadata
+        FROM bundles b
+        WHERE b.id = override_bundle_id
+          AND b.id != bundle_id;
+        RETURN;
+    END IF;
+
+    -- Apps older than the minimum app version of the closest channel must be updated from the store
+    SELECT p.min_app_version, p.store_url
+    INTO required_min_app_version, required_store_url
+    FROM channel_platforms p
+    WHERE p.channel = ANY(channel_chain)
+      AND p.platform = app_platform
+      AND p.min_app_version IS NOT NULL
+    ORDER BY array_position(channel_chain, p.channel)
+    LIMIT 1;
+
+    IF required_min_app_version IS NOT NULL
+       AND min_app_version_list IS NOT NULL
+       AND NOT (required_min_app_version = ANY(min_app_version_list)) THEN
+        RETURN QUERY
+        SELECT
+            reported_bundle_id,
+            TRUE,
+            NULL::text,
+            'NATIVE_UPDATE_REQUIRED'::text,
+            required_store_url,
+            NULL::jsonb,
+            NULL::jsonb;
+        RETURN;
+    END IF;
+
+    -- A pinned bundle is served like an assigned one, ignoring newer bundles of the channel
+    SELECT p.pinned_bundle_id
+    INTO pinned_bundle_id
+    FROM channel_platforms p
+    WHERE p.channel = ANY(channel_chain)
+      AND p.platform = app_platform
+      AND p.pinned_bundle_id IS NOT NULL
+    ORDER BY array_position(channel_chain, p.channel)
+    LIMIT 1;
+
+    IF pinned_bundle_id IS NOT NULL AND EXISTS (
+        SELECT 1
+        FROM bundles b
+        WHERE b.id = pinned_bundle_id
+          AND b.platform = app_platform
+          AND b.target_app_version = ANY(target_app_version_list)
+          AND (b.fingerprint_hash IS NULL OR b.fingerprint_hash = get_update_info.fingerprint_hash)
+          AND b.id >= min_bundle_id
+    ) THEN
+        RETURN QUERY
+        SELECT
+            COALESCE(b.source_bundle_id, b.id),
+            CASE WHEN b.id > bundle_id THEN b.should_force_update ELSE TRUE END,
+            b.message,
+            CASE WHEN b.id > bundle_id THEN 'UPDATE' ELSE 'ROLLBACK' END,
+            NULL::text,
+            NULL::jsonb,
+            b.metadata
+        FROM bundles b
+        WHERE b.id = pinned_bundle_id
+          AND b.id != bundle_id;
+        RETURN;
+    END IF;
+
+    -- How devices leave a disabled or deleted bundle, the closest channel that sets a policy decides
+    SELECT c.rollback_policy
+    INTO channel_rollback_policy
+    FROM channels c
+    WHERE c.channel = ANY(channel_chain)
+      AND c.rollback_policy IS NOT NULL
+    ORDER BY array_position(channel_chain, c.channel)
+    LIMIT 1;
+
+    channel_rollback_policy := COALESCE(channel_rollback_policy, 'force');
+
     RETURN QUERY
     WITH update_candidate AS (
         SELECT
             b.id,
             b.should_force_update,
             b.message,
-            'UPDATE' AS status
+            'UPDATE' AS status,
+            b.metadata,
+            b.source_bundle_id
         FROM bundles b
         WHERE b.enabled = TRUE
           AND b.platform = app_platform
           AND b.id >= bundle_id
           AND b.id > min_bundle_id
           AND b.target_app_version IN (SELECT unnest(target_app_version_list))
-          AND b.channel = target_channel
+          AND b.channel = ANY(channel_chain)
+          AND (b.rollout_percentage >= 100 OR b.rollout_percentage > device_bucket)
+          AND (b.fingerprint_hash IS NULL OR b.fingerprint_hash = get_update_info.fingerprint_hash)
         ORDER BY b.id DESC
         LIMIT 1
     ),
     rollback_candidate AS (
         SELECT
             b.id,
-            TRUE AS should_force_update,
+            channel_rollback_policy = 'force' AS should_force_update,
             b.message,
-            'ROLLBACK' AS status
+            'ROLLBACK' AS status,
+            b.metadata,
+            b.source_bundle_id
         FROM bundles b
-        WHERE b.enabled = TRUE
+        WHERE channel_rollback_policy <> 'none'
+          AND b.enabled = TRUE
           AND b.platform = app_platform
           AND b.id < bundle_id
           AND b.id > min_bundle_id
+          AND b.target_app_version IN (SELECT unnest(target_app_version_list))
+          AND b.channel = ANY(channel_chain)
+          AND (b.rollout_percentage >= 100 OR b.rollout_percentage > device_bucket)
+          AND (b.fingerprint_hash IS NULL OR b.fingerprint_hash = get_update_info.fingerprint_hash)
         ORDER BY b.id DESC
         LIMIT 1
     ),
@@ -57,7 +241,27 @@ BEGIN
         SELECT * FROM rollback_candidate
         WHERE NOT EXISTS (SELECT 1 FROM update_candidate)
     )
-    SELECT *
+    SELECT
+        COALESCE(final_result.source_bundle_id, final_result.id),
+        final_result.should_force_update,
+        final_result.message,
+        final_result.status,
+        NULL::text AS store_url,
+        -- Messages of every eligible bundle up to the update, so skipped changes are not lost
+        CASE WHEN include_release_notes AND final_result.status = 'UPDATE' THEN (
+            SELECT jsonb_agg(jsonb_build_object('id', COALESCE(n.source_bundle_id, n.id), 'message', n.message) ORDER BY n.id)
+            FROM bundles n
+            WHERE n.enabled = TRUE
+              AND n.platform = app_platform
+              AND n.id > bundle_id
+              AND n.id <= final_result.id
+              AND n.id > min_bundle_id
+              AND n.target_app_version IN (SELECT unnest(target_app_version_list))
+              AND n.channel = ANY(channel_chain)
+              AND (n.rollout_percentage >= 100 OR n.rollout_percentage > device_bucket)
+              AND (n.fingerprint_hash IS NULL OR n.fingerprint_hash = get_update_info.fingerprint_hash)
+        ) END AS release_notes,
+        final_result.metadata
     FROM final_result
     WHERE final_result.id != bundle_id
 
@@ -65,10 +269,14 @@ BEGIN
 
     SELECT
         NIL_UUID      AS id,
-        TRUE          AS should_force_update,
+        channel_rollback_policy = 'force' AS should_force_update,
         NULL          AS message,
-        'ROLLBACK'    AS status
-    WHERE (SELECT COUNT(*) FROM final_result) = 0
+        'ROLLBACK'    AS status,
+        NULL          AS store_url,
+        NULL::jsonb   AS release_notes,
+        NULL::jsonb   AS metadata
+    WHERE channel_rollback_policy <> 'none'
+      AND (SELECT COUNT(*) FROM final_result) = 0
       AND bundle_id != NIL_UUID
       AND bundle_id > min_bundle_id
       AND NOT EXISTS (
@@ -77,6 +285,7 @@ BEGIN
           WHERE b.id = bundle_id
             AND b.enabled = TRUE
             AND b.platform = app_platform
+            AND (b.fingerprint_hash IS NULL OR b.fingerprint_hash = get_update_info.fingerprint_hash)
       );
 END;
 $$;
\ No newline at end of file
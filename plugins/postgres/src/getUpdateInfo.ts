@@ -1,9 +1,15 @@
 import {
+  type BundleMetadata,
   type GetBundlesArgs,
   NIL_UUID,
+  type ReleaseNote,
   type UpdateInfo,
 } from "@hot-updater/core";
-import { filterCompatibleAppVersions } from "@hot-updater/js";
+import {
+  filterCompatibleAppVersions,
+  filterSatisfiedMinAppVersions,
+  getRolloutBucket,
+} from "@hot-updater/js";
 import camelcaseKeys from "camelcase-keys";
 import type pg from "pg";
 import minify from "pg-minify";
@@ -16,6 +22,9 @@ export const getUpdateInfo = async (
     bundleId,
     minBundleId = NIL_UUID,
     channel = "production",
+    deviceId,
+    fingerprintHash,
+    includeReleaseNotes = false,
   }: GetBundlesArgs,
 ) => {
   const sqlGetTargetAppVersionList = minify(`
@@ -32,6 +41,22 @@ export const getUpdateInfo = async (
     appVersion,
   );
 
+  const { rows: minAppVersionList } = await pool.query<{
+    min_app_version: string;
+  }>(
+    minify(`
+      SELECT DISTINCT min_app_version
+      FROM channel_platforms
+      WHERE platform = $1 AND min_app_version IS NOT NULL;
+    `),
+    [platform],
+  );
+
+  const satisfiedMinAppVersionList = filterSatisfiedMinAppVersions(
+    minAppVersionList.map((row) => row.min_app_version),
+    appVersion,
+  );
+
   const sqlGetUpdateInfo = minify(`
     SELECT *
     FROM get_update_info(
@@ -40,7 +65,12 @@ export const getUpdateInfo = async (
       $3, -- bundleId
       $4, -- minBundleId (nullable)
       $5, -- channel
-      $6 -- targetAppVersionList (text array)
+      $6, -- targetAppVersionList (text array)
+      $7, -- deviceBucket (nullable)
+      $8, -- deviceId (nullable)
+      $9, -- fingerprintHash (nullable)
+      $10, -- minAppVersionList (text array)
+      $11 -- includeReleaseNotes
     );
   `);
 
@@ -49,6 +79,9 @@ export const getUpdateInfo = async (
     should_force_update: boolean;
     message: string;
     status: string;
+    store_url: string | null;
+    release_notes: ReleaseNote[] | null;
+    metadata: BundleMetadata | null;
   }>(sqlGetUpdateInfo, [
     platform,
     appVersion,
@@ -56,7 +89,23 @@ export const getUpdateInfo = async (
     minBundleId ?? NIL_UUID,
     channel,
     targetAppVersionList,
+    getRolloutBucket(deviceId),
+    deviceId ?? null,
+    fingerprintHash ?? null,
+    satisfiedMinAppVersionList,
+    includeReleaseNotes,
   ]);
 
-  return result.rows[0] ? (camelcaseKeys(result.rows[0]) as UpdateInfo) : null;
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  const { store_url, release_notes, metadata, ...updateInfo } = row;
+  return camelcaseKeys({
+    ...updateInfo,
+    ...(updateInfo.status === "NATIVE_UPDATE_REQUIRED" ? { store_url } : {}),
+    ...(release_notes ? { release_notes } : {}),
+    ...(metadata ? { metadata } : {}),
+  }) as UpdateInfo;
 };
@@ -47,6 +47,10 @@ export const postgres = (
           platform: data.platform,
           targetAppVersion: data.target_app_version,
           channel: data.channel,
+          rolloutPercentage: data.rollout_percentage,
+          fingerprintHash: data.fingerprint_hash,
+          metadata: data.metadata,
+          sourceBundleId: data.source_bundle_id,
         } as Bundle;
       },
 
@@ -83,6 +87,10 @@ export const postgres = (
           platform: bundle.platform,
           targetAppVersion: bundle.target_app_version,
           channel: bundle.channel,
+          rolloutPercentage: bundle.rollout_percentage,
+          fingerprintHash: bundle.fingerprint_hash,
+          metadata: bundle.metadata,
+          sourceBundleId: bundle.source_bundle_id,
         })) as Bundle[];
       },
 
@@ -116,6 +124,10 @@ export const postgres = (
                 platform: bundle.platform,
                 target_app_version: bundle.targetAppVersion,
                 channel: bundle.channel,
+                rollout_percentage: bundle.rolloutPercentage ?? 100,
+                fingerprint_hash: bundle.fingerprintHash ?? null,
+                source_bundle_id: bundle.sourceBundleId ?? null,
+                metadata: bundle.metadata ?? null,
               })
               .onConflict((oc) =>
                 oc.column("id").doUpdateSet({
@@ -127,12 +139,140 @@ export const postgres = (
                   platform: bundle.platform,
                   target_app_version: bundle.targetAppVersion,
                   channel: bundle.channel,
+                  rollout_percentage: bundle.rolloutPercentage ?? 100,
+                  fingerprint_hash: bundle.fingerprintHash ?? null,
+                  source_bundle_id: bundle.sourceBundleId ?? null,
+                  metadata: bundle.metadata ?? null,
                 }),
               )
               .execute();
           }
         });
       },
+
+      async getDeviceOverrides() {
+        const data = await db
+          .selectFrom("device_overrides")
+          .selectAll()
+          .orderBy("device_id")
+          .execute();
+
+        return data.map((deviceOverride) => ({
+          deviceId: deviceOverride.device_id,
+          channel: deviceOverride.channel,
+          bundleId: deviceOverride.bundle_id,
+        }));
+      },
+
+      async setDeviceOverride(deviceOverride) {
+        await db
+          .insertInto("device_overrides")
+          .values({
+            device_id: deviceOverride.deviceId,
+            channel: deviceOverride.channel,
+            bundle_id: deviceOverride.bundleId,
+          })
+          .onConflict((oc) =>
+            oc.column("device_id").doUpdateSet({
+              channel: deviceOverride.channel,
+              bundle_id: deviceOverride.bundleId,
+            }),
+          )
+          .execute();
+      },
+
+      async deleteDeviceOverride(deviceId) {
+        await db
+          .deleteFrom("device_overrides")
+          .where("device_id", "=", deviceId)
+          .execute();
+      },
+
+      async getChannelConfigs() {
+        const data = await db
+          .selectFrom("channels")
+          .selectAll()
+          .orderBy("channel")
+          .execute();
+
+        return data.map((channelConfig) => ({
+          channel: channelConfig.channel,
+          parentChannel: channelConfig.parent_channel,
+          mode: channelConfig.mode,
+          rollbackPolicy: channelConfig.rollback_policy,
+        }));
+      },
+
+      async setChannelConfig(channelConfig) {
+        await db
+          .insertInto("channels")
+          .values({
+            channel: channelConfig.channel,
+            parent_channel: channelConfig.parentChannel,
+            mode: channelConfig.mode ?? "normal",
+            rollback_policy: channelConfig.rollbackPolicy ?? null,
+          })
+          .onConflict((oc) =>
+            oc.column("channel").doUpdateSet({
+              parent_channel: channelConfig.parentChannel,
+              mode: channelConfig.mode ?? "normal",
+              rollback_policy: channelConfig.rollbackPolicy ?? null,
+            }),
+          )
+          .execute();
+      },
+
+      async deleteChannelConfig(channel) {
+        await db
+          .deleteFrom("channels")
+          .where("channel", "=", channel)
+          .execute();
+      },
+
+      async getChannelPlatformConfigs() {
+        const data = await db
+          .selectFrom("channel_platforms")
+          .selectAll()
+          .orderBy("channel")
+          .orderBy("platform")
+          .execute();
+
+        return data.map((channelPlatformConfig) => ({
+          channel: channelPlatformConfig.channel,
+          platform: channelPlatformConfig.platform,
+          minAppVersion: channelPlatformConfig.min_app_version,
+          storeUrl: channelPlatformConfig.store_url,
+          pinnedBundleId: channelPlatformConfig.pinned_bundle_id ?? null,
+        }));
+      },
+
+      async setChannelPlatformConfig(channelPlatformConfig) {
+        await db
+          .insertInto("channel_platforms")
+          .values({
+            channel: channelPlatformConfig.channel,
+            platform: channelPlatformConfig.platform,
+            min_app_version: channelPlatformConfig.minAppVersion,
+            store_url: channelPlatformConfig.storeUrl,
+            pinned_bundle_id: channelPlatformConfig.pinnedBundleId ?? null,
+          })
+          .onConflict((oc) =>
+            oc.columns(["channel", "platform"]).doUpdateSet({
+              min_app_version: channelPlatformConfig.minAppVersion,
+              store_url: channelPlatformConfig.storeUrl,
+              pinned_bundle_id: channelPlatformConfig.pinnedBundleId ?? null,
+            }),
+          )
+          .execute();
+      },
+
+      async deleteChannelPlatformConfig(channel, platform) {
+        await db
+          .deleteFrom("channel_platforms")
+          .where("channel", "=", channel)
+          .where("platform", "=", platform)
+          .execute();
+      },
     },
     hooks,
   );
@@ -1,5 +1,13 @@
-import type { SnakeCaseBundle } from "@hot-updater/core";
+import type {
+  SnakeCaseBundle,
+  SnakeCaseChannelConfig,
+  SnakeCaseChannelPlatformConfig,
+  SnakeCaseDeviceOverride,
+} from "@hot-updater/core";
 
 export interface Database {
   bundles: SnakeCaseBundle;
+  device_overrides: SnakeCaseDeviceOverride;
+  channels: SnakeCaseChannelConfig;
+  channel_platforms: SnakeCaseChannelPlatformConfig;
 }
@@ -1,4 +1,5 @@
 import { GetObjectCommand, S3Client } from "@aws-sdk/client-s3";
+import { validateAppUpdateInfo } from "@hot-updater/core";
 import {
   getUpdateInfo,
   verifyJwtSignedUrl,
@@ -30,6 +31,12 @@ app.get("/api/check-update", async (c) => {
     const appVersion = c.req.header("x-app-version") as string;
     const minBundleId = c.req.header("x-min-bundle-id") as string | undefined; // nil
     const channel = c.req.header("x-channel") as string | undefined; // production
+    const deviceId = c.req.header("x-device-id") as string | undefined;
+    const fingerprintHash = c.req.header("x-fingerprint-hash") as
+      | string
+      | undefined;
+    const includeReleaseNotes =
+      c.req.header("x-include-release-notes") === "true";
 
     if (!bundleId || !appPlatform || !appVersion) {
       return c.json(
@@ -44,6 +51,9 @@ app.get("/api/check-update", async (c) => {
       appVersion,
       minBundleId,
       channel,
+      deviceId,
+      fingerprintHash,
+      includeReleaseNotes,
     });
     if (!updateInfo) {
       return c.json(null);
@@ -55,7 +65,12 @@ app.get("/api/check-update", async (c) => {
       jwtSecret: process.env.JWT_SECRET!,
     });
 
-    return c.json(appUpdateInfo, 200);
+    const validation = validateAppUpdateInfo(appUpdateInfo);
+    if (!validation.success) {
+      console.error(validation.errors);
+      return c.json({ error: "Invalid update info" }, 500);
+    }
+    return c.json(validation.data, 200);
   } catch (e) {
     console.error(e);
     return c.json({ error: "Internal Server Error" }, 500);
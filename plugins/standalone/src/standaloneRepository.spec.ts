@@ -176,6 +176,29 @@ describe("Standalone Repository Plugin (Default Routes)", () => {
     expect(onDatabaseUpdated).toHaveBeenCalled();
   });
 
+  it("updateBundle & commitBundle: replaces the metadata instead of merging it", async () => {
+    let postedBundles: Bundle[] = [];
+
+    server.use(
+      http.get("http://localhost/bundles/:bundleId", () => {
+        return HttpResponse.json({
+          ...testBundles[0],
+          metadata: { ticket: "APP-1", hotfix: true },
+        });
+      }),
+      http.post("http://localhost/bundles", async ({ request }) => {
+        postedBundles = (await request.json()) as Bundle[];
+        return HttpResponse.json({ success: true });
+      }),
+    );
+
+    await repo.updateBundle("00000000-0000-0000-0000-000000000001", {
+      metadata: { ticket: "APP-2" },
+    });
+    await repo.commitBundle();
+    expect(postedBundles[0].metadata).toEqual({ ticket: "APP-2" });
+  });
+
   it("updateBundle: throws error if target bundle does not exist", async () => {
     server.use(
       http.get("http://localhost/bundles", () => {
@@ -251,6 +274,56 @@ describe("Standalone Repository Plugin (Default Routes)", () => {
       new Error("API Error: Internal Server Error"),
     );
   });
+
+  it("getDeviceOverrides: GET /device-overrides fetches device overrides", async () => {
+    const deviceOverrides = [
+      { deviceId: "device-a", channel: "beta", bundleId: null },
+    ];
+    server.use(
+      http.get("http://localhost/device-overrides", () =>
+        HttpResponse.json(deviceOverrides),
+      ),
+    );
+
+    expect(await repo.getDeviceOverrides?.()).toEqual(deviceOverrides);
+  });
+
+  it("setDeviceOverride: POST /device-overrides sends the device override", async () => {
+    let postedBody: unknown;
+    server.use(
+      http.post("http://localhost/device-overrides", async ({ request }) => {
+        postedBody = await request.json();
+        return HttpResponse.json({ success: true });
+      }),
+    );
+
+    await repo.setDeviceOverride?.({
+      deviceId: "device-a",
+      channel: null,
+      bundleId: "00000000-0000-0000-0000-000000000001",
+    });
+    expect(postedBody).toEqual({
+      deviceId: "device-a",
+      channel: null,
+      bundleId: "00000000-0000-0000-0000-000000000001",
+    });
+  });
+
+  it("deleteDeviceOverride: DELETE /device-overrides/:deviceId removes the device override", async () => {
+    let deletedDeviceId: unknown;
+    server.use(
+      http.delete(
+        "http://localhost/device-overrides/:deviceId",
+        ({ params }) => {
+          deletedDeviceId = params.deviceId;
+          return HttpResponse.json({ success: true });
+        },
+      ),
+    );
+
+    await repo.deleteDeviceOverride?.("device-a");
+    expect(deletedDeviceId).toBe("device-a");
+  });
 });
 
 // ─── Custom Routes Tests ────────────────────────────────
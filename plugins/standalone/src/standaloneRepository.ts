@@ -1,4 +1,8 @@
-import type { Bundle, DatabasePluginHooks } from "@hot-updater/plugin-core";
+import type {
+  Bundle,
+  DatabasePluginHooks,
+  DeviceOverride,
+} from "@hot-updater/plugin-core";
 import { createDatabasePlugin } from "@hot-updater/plugin-core";
 
 export interface RouteConfig {
@@ -10,9 +14,12 @@ export interface Routes {
   upsert: () => RouteConfig;
   list: () => RouteConfig;
   retrieve: (bundleId: string) => RouteConfig;
+  listDeviceOverrides?: () => RouteConfig;
+  upsertDeviceOverride?: () => RouteConfig;
+  deleteDeviceOverride?: (deviceId: string) => RouteConfig;
 }
 
-const defaultRoutes: Routes = {
+const defaultRoutes: Required<Routes> = {
   upsert: () => ({
     path: "/bundles",
   }),
@@ -24,6 +31,16 @@ const defaultRoutes: Routes = {
     path: `/bundles/${bundleId}`,
     headers: { Accept: "application/json" },
   }),
+  listDeviceOverrides: () => ({
+    path: "/device-overrides",
+    headers: { "Cache-Control": "no-cache" },
+  }),
+  upsertDeviceOverride: () => ({
+    path: "/device-overrides",
+  }),
+  deleteDeviceOverride: (deviceId: string) => ({
+    path: `/device-overrides/${deviceId}`,
+  }),
 };
 
 const createRoute = (
@@ -47,7 +64,7 @@ export const standaloneRepository = (
   config: StandaloneRepositoryConfig,
   hooks?: DatabasePluginHooks,
 ) => {
-  const routes: Routes = {
+  const routes: Required<Routes> = {
     upsert: () =>
       createRoute(defaultRoutes.upsert(), config.routes?.upsert?.()),
     list: () => createRoute(defaultRoutes.list(), config.routes?.list?.()),
@@ -56,6 +73,21 @@ export const standaloneRepository = (
         defaultRoutes.retrieve(bundleId),
         config.routes?.retrieve?.(bundleId),
       ),
+    listDeviceOverrides: () =>
+      createRoute(
+        defaultRoutes.listDeviceOverrides(),
+        config.routes?.listDeviceOverrides?.(),
+      ),
+    upsertDeviceOverride: () =>
+      createRoute(
+        defaultRoutes.upsertDeviceOverride(),
+        config.routes?.upsertDeviceOverride?.(),
+      ),
+    deleteDeviceOverride: (deviceId) =>
+      createRoute(
+        defaultRoutes.deleteDeviceOverride(deviceId),
+        config.routes?.deleteDeviceOverride?.(deviceId),
+      ),
   };
 
   const getHeaders = (routeHeaders?: Record<string, string>) => ({
@@ -141,6 +173,43 @@ export const standaloneRepository = (
           throw new Error("Failed to commit bundles");
         }
       },
+      async getDeviceOverrides() {
+        const { path, headers: routeHeaders } = routes.listDeviceOverrides();
+        const response = await fetch(`${config.baseUrl}${path}`, {
+          method: "GET",
+          headers: getHeaders(routeHeaders),
+        });
+
+        if (!response.ok) {
+          throw new Error(`API Error: ${response.statusText}`);
+        }
+
+        return (await response.json()) as DeviceOverride[];
+      },
+      async setDeviceOverride(deviceOverride) {
+        const { path, headers: routeHeaders } = routes.upsertDeviceOverride();
+        const response = await fetch(`${config.baseUrl}${path}`, {
+          method: "POST",
+          headers: getHeaders(routeHeaders),
+          body: JSON.stringify(deviceOverride),
+        });
+
+        if (!response.ok) {
+          throw new Error(`API Error: ${response.statusText}`);
+        }
+      },
+      async deleteDeviceOverride(deviceId) {
+        const { path, headers: routeHeaders } =
+          routes.deleteDeviceOverride(deviceId);
+        const response = await fetch(`${config.baseUrl}${path}`, {
+          method: "DELETE",
+          headers: getHeaders(routeHeaders),
+        });
+
+        if (!response.ok) {
+          throw new Error(`API Error: ${response.statusText}`);
+        }
+      },
     },
     hooks,
   );
@@ -40,6 +40,10 @@ export const supabaseDatabase = (
           message: data.message,
           platform: data.platform,
           targetAppVersion: data.target_app_version,
+          rolloutPercentage: data.rollout_percentage,
+          fingerprintHash: data.fingerprint_hash,
+          metadata: data.metadata,
+          sourceBundleId: data.source_bundle_id,
         } as Bundle;
       },
 
@@ -82,6 +86,10 @@ export const supabaseDatabase = (
           message: bundle.message,
           platform: bundle.platform,
           targetAppVersion: bundle.target_app_version,
+          rolloutPercentage: bundle.rollout_percentage,
+          fingerprintHash: bundle.fingerprint_hash,
+          metadata: bundle.metadata,
+          sourceBundleId: bundle.source_bundle_id,
         })) as Bundle[];
       },
 
@@ -111,6 +119,10 @@ export const supabaseDatabase = (
             message: bundle.message,
             platform: bundle.platform,
             target_app_version: bundle.targetAppVersion,
+            rollout_percentage: bundle.rolloutPercentage ?? 100,
+            fingerprint_hash: bundle.fingerprintHash ?? null,
+            metadata: bundle.metadata ?? null,
+            source_bundle_id: bundle.sourceBundleId ?? null,
           })),
           { onConflict: "id" },
         );
@@ -119,6 +131,143 @@ export const supabaseDatabase = (
           throw error;
         }
       },
+
+      async getDeviceOverrides() {
+        const { data, error } = await supabase
+          .from("device_overrides")
+          .select("*")
+          .order("device_id");
+
+        if (error) {
+          throw error;
+        }
+
+        return data.map((deviceOverride) => ({
+          deviceId: deviceOverride.device_id,
+          channel: deviceOverride.channel,
+          bundleId: deviceOverride.bundle_id,
+        }));
+      },
+
+      async setDeviceOverride(deviceOverride) {
+        const { error } = await supabase.from("device_overrides").upsert(
+          {
+            device_id: deviceOverride.deviceId,
+            channel: deviceOverride.channel,
+            bundle_id: deviceOverride.bundleId,
+          },
+          { onConflict: "device_id" },
+        );
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      async deleteDeviceOverride(deviceId) {
+        const { error } = await supabase
+          .from("device_overrides")
+          .delete()
+          .eq("device_id", deviceId);
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      async getChannelConfigs() {
+        const { data, error } = await supabase
+          .from("channels")
+          .select("*")
+          .order("channel");
+
+        if (error) {
+          throw error;
+        }
+
+        return data.map((channelConfig) => ({
+          channel: channelConfig.channel,
+          parentChannel: channelConfig.parent_channel,
+          mode: channelConfig.mode,
+          rollbackPolicy: channelConfig.rollback_policy,
+        }));
+      },
+
+      async setChannelConfig(channelConfig) {
+        const { error } = await supabase.from("channels").upsert(
+          {
+            channel: channelConfig.channel,
+            parent_channel: channelConfig.parentChannel,
+            mode: channelConfig.mode ?? "normal",
+            rollback_policy: channelConfig.rollbackPolicy ?? null,
+          },
+          { onConflict: "channel" },
+        );
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      async deleteChannelConfig(channel) {
+        const { error } = await supabase
+          .from("channels")
+          .delete()
+          .eq("channel", channel);
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      async getChannelPlatformConfigs() {
+        const { data, error } = await supabase
+          .from("channel_platforms")
+          .select("*")
+          .order("channel")
+          .order("platform");
+
+        if (error) {
+          throw error;
+        }
+
+        return data.map((channelPlatformConfig) => ({
+          channel: channelPlatformConfig.channel,
+          platform: channelPlatformConfig.platform,
+          minAppVersion: channelPlatformConfig.min_app_version,
+          storeUrl: channelPlatformConfig.store_url,
+          pinnedBundleId: channelPlatformConfig.pinned_bundle_id ?? null,
+        }));
+      },
+
+      async setChannelPlatformConfig(channelPlatformConfig) {
+        const { error } = await supabase.from("channel_platforms").upsert(
+          {
+            channel: channelPlatformConfig.channel,
+            platform: channelPlatformConfig.platform,
+            min_app_version: channelPlatformConfig.minAppVersion,
+            store_url: channelPlatformConfig.storeUrl,
+            pinned_bundle_id: channelPlatformConfig.pinnedBundleId ?? null,
+          },
+          { onConflict: "channel,platform" },
+        );
+
+        if (error) {
+          throw error;
+        }
+      },
+
+      async deleteChannelPlatformConfig(channel, platform) {
+        const { error } = await supabase
+          .from("channel_platforms")
+          .delete()
+          .eq("channel", channel)
+          .eq("platform", platform);
+
+        if (error) {
+          throw error;
+        }
+      },
     },
     hooks,
   );
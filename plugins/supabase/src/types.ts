@@ -1,4 +1,9 @@
-import type { SnakeCaseBundle } from "@hot-updater/core";
+import type {
+  SnakeCaseBundle,
+  SnakeCaseChannelConfig,
+  SnakeCaseChannelPlatformConfig,
+  SnakeCaseDeviceOverride,
+} from "@hot-updater/core";
 
 export type Database = {
   public: {
@@ -9,6 +14,24 @@ export type Database = {
         Update: SnakeCaseBundle;
         Relationships: [];
       };
+      device_overrides: {
+        Row: SnakeCaseDeviceOverride;
+        Insert: SnakeCaseDeviceOverride;
+        Update: SnakeCaseDeviceOverride;
+        Relationships: [];
+      };
+      channels: {
+        Row: SnakeCaseChannelConfig;
+        Insert: SnakeCaseChannelConfig;
+        Update: SnakeCaseChannelConfig;
+        Relationships: [];
+      };
+      channel_platforms: {
+        Row: SnakeCaseChannelPlatformConfig;
+        Insert: SnakeCaseChannelPlatformConfig;
+        Update: SnakeCaseChannelPlatformConfig;
+        Relationships: [];
+      };
     };
     Views: {
       [_ in never]: never;
@@ -33,6 +33,101 @@ export const filterCompatibleAppVersions = (
   return compatibleAppVersionList.sort((a, b) => b.localeCompare(a));
 };
 
+/**
+ * Filters minimum native app versions that the current app version meets.
+ * Must stay in sync with `filterSatisfiedMinAppVersions` in @hot-updater/js.
+ */
+const filterSatisfiedMinAppVersions = (
+  minAppVersionList: string[],
+  currentVersion: string,
+) => {
+  const currentCoerce = semver.coerce(currentVersion);
+  return minAppVersionList.filter((minAppVersion) => {
+    const minCoerce = semver.coerce(minAppVersion);
+    if (!minCoerce || !currentCoerce) {
+      return true;
+    }
+    return !semver.lt(currentCoerce, minCoerce);
+  });
+};
+
+/**
+ * Places a device into one of 100 rollout buckets (0-99).
+ * Must stay in sync with `getRolloutBucket` in @hot-updater/js.
+ */
+const getRolloutBucket = (deviceId?: string | null) => {
+  if (!deviceId) {
+    return null;
+  }
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < deviceId.length; i++) {
+    hash ^= deviceId.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return (hash >>> 0) % 100;
+};
+
+const UPDATE_STATUSES = ["ROLLBACK", "UPDATE", "NATIVE_UPDATE_REQUIRED"];
+
+const isStringOrNull = (value: unknown) =>
+  typeof value === "string" || value === null;
+
+/**
+ * Validates a response against `AppUpdateInfo`, listing every mismatching field on failure.
+ * Must stay in sync with `validateAppUpdateInfo` in @hot-updater/core.
+ */
+const validateAppUpdateInfo = (appUpdateInfo: Record<string, unknown>) => {
+  const { releaseNotes, metadata } = appUpdateInfo;
+  const errors: string[] = [];
+
+  if (typeof appUpdateInfo.id !== "string") {
+    errors.push("id");
+  }
+  if (typeof appUpdateInfo.shouldForceUpdate !== "boolean") {
+    errors.push("shouldForceUpdate");
+  }
+  if (!isStringOrNull(appUpdateInfo.message)) {
+    errors.push("message");
+  }
+  if (!UPDATE_STATUSES.includes(appUpdateInfo.status as string)) {
+    errors.push("status");
+  }
+  if (!isStringOrNull(appUpdateInfo.fileUrl)) {
+    errors.push("fileUrl");
+  }
+  if (
+    appUpdateInfo.storeUrl !== undefined &&
+    !isStringOrNull(appUpdateInfo.storeUrl)
+  ) {
+    errors.push("storeUrl");
+  }
+  if (
+    releaseNotes !== undefined &&
+    !(
+      Array.isArray(releaseNotes) &&
+      releaseNotes.every(
+        (note) => typeof note?.id === "string" && isStringOrNull(note.message),
+      )
+    )
+  ) {
+    errors.push("releaseNotes");
+  }
+  if (
+    metadata !== undefined &&
+    (typeof metadata !== "object" ||
+      metadata === null ||
+      Array.isArray(metadata))
+  ) {
+    errors.push("metadata");
+  }
+
+  return errors.length === 0
+    ? { success: true as const, data: appUpdateInfo }
+    : { success: false as const, errors };
+};
+
 const createErrorResponse = (message: string, statusCode: number) => {
   return new Response(JSON.stringify({ code: statusCode, message }), {
     headers: { "Content-Type": "application/json" },
@@ -40,6 +135,18 @@ const createErrorResponse = (message: string, statusCode: number) => {
   });
 };
 
+const createUpdateInfoResponse = (appUpdateInfo: Record<string, unknown>) => {
+  const validation = validateAppUpdateInfo(appUpdateInfo);
+  if (!validation.success) {
+    console.error(validation.errors);
+    return createErrorResponse("Invalid update info", 500);
+  }
+  return new Response(JSON.stringify(validation.data), {
+    headers: { "Content-Type": "application/json" },
+    status: 200,
+  });
+};
+
 declare global {
   var HotUpdater: {
     BUCKET_NAME: string;
@@ -63,6 +170,12 @@ Deno.serve(async (req) => {
       | string
       | undefined;
     const channel = req.headers.get("x-channel") as string | undefined;
+    const deviceId = req.headers.get("x-device-id") as string | undefined;
+    const fingerprintHash = req.headers.get("x-fingerprint-hash") as
+      | string
+      | undefined;
+    const includeReleaseNotes =
+      req.headers.get("x-include-release-notes") === "true";
 
     if (!bundleId || !appPlatform || !appVersion) {
       return createErrorResponse(
@@ -83,6 +196,20 @@ Deno.serve(async (req) => {
       appVersion,
     );
 
+    const { data: minAppVersionList } = await supabase
+      .from("channel_platforms")
+      .select("min_app_version")
+      .eq("platform", appPlatform)
+      .not("min_app_version", "is", null);
+    const satisfiedMinAppVersionList = filterSatisfiedMinAppVersions(
+      [
+        ...new Set(
+          minAppVersionList?.map((row) => row.min_app_version as string) ?? [],
+        ),
+      ],
+      appVersion,
+    );
+
     const { data, error } = await supabase.rpc("get_update_info", {
       app_platform: appPlatform,
       app_version: appVersion,
@@ -90,47 +217,51 @@ Deno.serve(async (req) => {
       min_bundle_id: minBundleId || NIL_UUID,
       target_channel: channel || "production",
       target_app_version_list: compatibleAppVersionList,
+      device_bucket: getRolloutBucket(deviceId),
+      device_id: deviceId || null,
+      fingerprint_hash: fingerprintHash || null,
+      min_app_version_list: satisfiedMinAppVersionList,
+      include_release_notes: includeReleaseNotes,
     });
 
     if (error) {
       throw error;
     }
 
-    const response = data[0] ? camelcaseKeys(data[0]) : null;
-    if (!response) {
+    if (!data[0]) {
       return new Response(JSON.stringify(null), {
         headers: { "Content-Type": "application/json" },
         status: 200,
       });
     }
 
-    if (response.id === NIL_UUID) {
-      return new Response(
-        JSON.stringify({
-          ...response,
-          fileUrl: null,
-        }),
-        {
-          headers: { "Content-Type": "application/json" },
-          status: 200,
-        },
-      );
+    // The store url is only meaningful when a native update is required
+    const { store_url, release_notes, metadata, ...row } = data[0];
+    const response = camelcaseKeys({
+      ...row,
+      ...(row.status === "NATIVE_UPDATE_REQUIRED" ? { store_url } : {}),
+      ...(release_notes ? { release_notes } : {}),
+      ...(metadata ? { metadata } : {}),
+    });
+
+    if (
+      response.id === NIL_UUID ||
+      response.status === "NATIVE_UPDATE_REQUIRED"
+    ) {
+      return createUpdateInfoResponse({
+        ...response,
+        fileUrl: null,
+      });
     }
 
     const { data: signedUrlData } = await supabase.storage
       .from(HotUpdater.BUCKET_NAME)
       .createSignedUrl([response.id, "bundle.zip"].join("/"), 60);
 
-    return new Response(
-      JSON.stringify({
-        ...response,
-        fileUrl: signedUrlData?.signedUrl ?? null,
-      }),
-      {
-        headers: { "Content-Type": "application/json" },
-        status: 200,
-      },
-    );
+    return createUpdateInfoResponse({
+      ...response,
+      fileUrl: signedUrlData?.signedUrl ?? null,
+    });
   } catch (err: unknown) {
     return createErrorResponse(
       err instanceof Error ? err.message : "Unknown error",